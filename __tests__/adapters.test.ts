@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Readable } from "stream";
+import type { IncomingMessage, ServerResponse } from "http";
+import { webhooksResource } from "../resources/webhooks";
+import { buildSubscriptionEvent, signWebhookPayload } from "../testing";
+import { handleWebhookRequest } from "../adapters/shared";
+import { createWebhookHandler as createNodeHandler } from "../adapters/node";
+import { createWebhookHandler as createExpressHandler } from "../adapters/express";
+import { createWebhookHandler as createNextHandler } from "../adapters/next";
+import { createWebhookHandler as createHonoHandler } from "../adapters/hono";
+import { createWebhookHandler as createFastifyHandler } from "../adapters/fastify";
+
+const SECRET = "whsec_test_secret_123";
+const webhooks = webhooksResource(SECRET);
+const payload = JSON.stringify(buildSubscriptionEvent("subscription.paid"));
+let signature: string;
+
+beforeEach(async () => {
+  signature = await signWebhookPayload(payload, SECRET);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function nodeRequest(body: string, headers: Record<string, string> = {}) {
+  return Object.assign(Readable.from([Buffer.from(body)]), { headers }) as IncomingMessage;
+}
+
+function nodeResponse() {
+  const res = { statusCode: 0, body: "", setHeader: vi.fn(), end: vi.fn() };
+  res.end.mockImplementation((body: string) => (res.body = body));
+  return res;
+}
+
+describe("handleWebhookRequest", () => {
+  it("responds 200 when the event is handled", async () => {
+    const onSubscriptionPaid = vi.fn();
+
+    await expect(
+      handleWebhookRequest(webhooks, payload, signature, { onSubscriptionPaid }),
+    ).resolves.toEqual({ status: 200, body: "OK" });
+    expect(onSubscriptionPaid).toHaveBeenCalledOnce();
+  });
+
+  it("responds 400 for a missing or invalid signature", async () => {
+    await expect(handleWebhookRequest(webhooks, payload, null)).resolves.toEqual({
+      status: 400,
+      body: "Missing creem-signature header",
+    });
+    await expect(handleWebhookRequest(webhooks, payload, "bad_sig")).resolves.toEqual({
+      status: 400,
+      body: "Invalid webhook signature",
+    });
+  });
+
+  it("responds 400 for events outside the timestamp tolerance", async () => {
+    const strict = webhooksResource(SECRET, { toleranceSeconds: 60, clock: () => 0 });
+
+    await expect(handleWebhookRequest(strict, payload, signature)).resolves.toMatchObject({
+      status: 400,
+    });
+  });
+
+  it("responds 400 for a signed payload that is not a webhook event", async () => {
+    for (const body of ["not json", JSON.stringify({ eventType: "subscription.paid" })]) {
+      const response = await handleWebhookRequest(
+        webhooks,
+        body,
+        await signWebhookPayload(body, SECRET),
+      );
+      expect(response.status).toBe(400);
+    }
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it("responds 500 without leaking details when a handler fails", async () => {
+    await expect(
+      handleWebhookRequest(webhooks, payload, signature, {
+        onSubscriptionPaid: () => Promise.reject(new Error("db down")),
+      }),
+    ).resolves.toEqual({ status: 500, body: "Webhook handler failed" });
+    expect(console.error).toHaveBeenCalled();
+  });
+});
+
+describe("node adapter", () => {
+  it("reads the raw body and signature header", async () => {
+    const onSubscriptionPaid = vi.fn();
+    const res = nodeResponse();
+
+    await createNodeHandler(webhooks, { onSubscriptionPaid })(
+      nodeRequest(payload, { "creem-signature": signature }),
+      res as unknown as ServerResponse,
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toBe("OK");
+    expect(onSubscriptionPaid).toHaveBeenCalledOnce();
+  });
+});
+
+describe("express adapter", () => {
+  function expressResponse() {
+    const res = { statusCode: 0, body: "", status: vi.fn(), send: vi.fn() };
+    res.status.mockImplementation((code: number) => ((res.statusCode = code), res));
+    res.send.mockImplementation((body: string) => (res.body = body));
+    return res;
+  }
+
+  it("uses a raw Buffer body from express.raw()", async () => {
+    const req = Object.assign(nodeRequest(""), {
+      headers: { "creem-signature": signature },
+      body: Buffer.from(payload),
+    });
+    const res = expressResponse();
+
+    await createExpressHandler(webhooks)(req, res);
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("reads the stream when no body parser ran", async () => {
+    const res = expressResponse();
+
+    await createExpressHandler(webhooks)(nodeRequest(payload, { "creem-signature": "bad" }), res);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toBe("Invalid webhook signature");
+  });
+
+  it("responds 500 when the body was already parsed as JSON", async () => {
+    const req = Object.assign(nodeRequest(payload, { "creem-signature": signature }), {
+      body: JSON.parse(payload),
+    });
+    // express.json() consumes the stream before the handler runs
+    for await (const _chunk of req);
+    const res = expressResponse();
+
+    await createExpressHandler(webhooks)(req, res);
+
+    expect(res.statusCode).toBe(500);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("express.raw"));
+  });
+});
+
+describe("fetch-based adapters", () => {
+  const request = (sig: string) =>
+    new Request("https://example.com/webhook", {
+      method: "POST",
+      headers: { "creem-signature": sig },
+      body: payload,
+    });
+
+  it("next handles a Request and returns a Response", async () => {
+    const response = await createNextHandler(webhooks)(request(signature));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("OK");
+  });
+
+  it("hono reads the raw request from the context", async () => {
+    const response = await createHonoHandler(webhooks)({ req: { raw: request("bad") } });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("fastify adapter", () => {
+  function fastifyReply() {
+    const reply = { statusCode: 0, body: "", code: vi.fn(), type: vi.fn(), send: vi.fn() };
+    reply.code.mockImplementation((code: number) => ((reply.statusCode = code), reply));
+    reply.type.mockReturnValue(reply);
+    reply.send.mockImplementation((body: string) => (reply.body = body));
+    return reply;
+  }
+
+  it("uses a Buffer body from a buffer content type parser", async () => {
+    const reply = fastifyReply();
+
+    await createFastifyHandler(webhooks)(
+      { headers: { "creem-signature": signature }, body: Buffer.from(payload) },
+      reply,
+    );
+
+    expect(reply.statusCode).toBe(200);
+  });
+
+  it("responds 500 when the body was parsed as JSON", async () => {
+    const reply = fastifyReply();
+
+    await createFastifyHandler(webhooks)(
+      { headers: { "creem-signature": signature }, body: JSON.parse(payload) },
+      reply,
+    );
+
+    expect(reply.statusCode).toBe(500);
+  });
+});
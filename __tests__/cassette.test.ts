@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createCreem } from "../index";
+import { CassetteError, createCassette, createFakeCreemServer, CassetteOptions } from "../testing";
+import { CreemNotFoundError } from "../errors";
+
+const API_KEY = "creem_test_secret_key";
+
+function client(options: CassetteOptions) {
+  const cassette = createCassette(options);
+  const creem = createCreem({ apiKey: API_KEY, fetch: cassette.fetch, retry: false });
+  return { cassette, creem };
+}
+
+describe("createCassette", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    dir = await mkdtemp(join(tmpdir(), "creem-cassette-"));
+    path = join(dir, "cassettes", "products.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function recordProducts(options: Partial<CassetteOptions> = {}) {
+    const server = createFakeCreemServer();
+    const { creem } = client({ path, mode: "record", fetch: server.fetch, ...options });
+    const product = await creem.products.create({
+      name: "Pro",
+      description: "Pro plan",
+      price: 2900,
+      currency: "USD",
+      billingType: "recurring",
+      billingPeriod: "every-month",
+    });
+    await creem.products.get({ productId: product.id });
+    await creem.products.get({ productId: "prod_missing" }).catch(() => {});
+    return product;
+  }
+
+  it("records exchanges to a JSON file without the API key", async () => {
+    await recordProducts();
+
+    const text = await readFile(path, "utf8");
+    expect(text).not.toContain(API_KEY);
+    expect(JSON.parse(text)).toEqual({
+      version: 1,
+      interactions: [
+        {
+          request: {
+            method: "POST",
+            path: "/v1/products",
+            query: {},
+            body: expect.objectContaining({ name: "Pro", billing_type: "recurring" }),
+          },
+          response: { status: 200, body: expect.objectContaining({ id: "prod_1" }) },
+        },
+        {
+          request: {
+            method: "GET",
+            path: "/v1/products",
+            query: { product_id: "prod_1" },
+            body: null,
+          },
+          response: { status: 200, body: expect.objectContaining({ id: "prod_1" }) },
+        },
+        {
+          request: expect.objectContaining({ query: { product_id: "prod_missing" } }),
+          response: {
+            status: 404,
+            body: expect.objectContaining({ message: ["Product not found"] }),
+          },
+        },
+      ],
+    });
+  });
+
+  it("replays recorded responses, including errors", async () => {
+    const recorded = await recordProducts();
+    const { cassette, creem } = client({ path, mode: "replay" });
+
+    expect(await creem.products.get({ productId: recorded.id })).toEqual(recorded);
+    await expect(creem.products.get({ productId: "prod_missing" })).rejects.toBeInstanceOf(
+      CreemNotFoundError,
+    );
+    expect(cassette.pending()).toHaveLength(1);
+    expect(cassette.pending()[0].request.method).toBe("POST");
+  });
+
+  it("matches request bodies regardless of field order", async () => {
+    await recordProducts();
+    const { creem } = client({ path, mode: "replay" });
+
+    const product = await creem.products.create({
+      billingPeriod: "every-month",
+      billingType: "recurring",
+      currency: "USD",
+      price: 2900,
+      description: "Pro plan",
+      name: "Pro",
+    });
+
+    expect(product.id).toBe("prod_1");
+  });
+
+  it("fails loudly on requests that were not recorded", async () => {
+    await recordProducts();
+    const { creem } = client({ path, mode: "replay" });
+
+    await expect(creem.products.get({ productId: "prod_other" })).rejects.toThrow(
+      `No interaction in cassette ${path} matches GET /v1/products?product_id=prod_other`,
+    );
+
+    // Each interaction is replayed once
+    await creem.products.get({ productId: "prod_1" });
+    await expect(creem.products.get({ productId: "prod_1" })).rejects.toThrow("No interaction");
+  });
+
+  it("redacts other secrets and matches them when replaying", async () => {
+    const server = createFakeCreemServer();
+    const { key } = server.createLicense();
+    const recording = client({ path, mode: "record", fetch: server.fetch, redact: [key] });
+    await recording.creem.licenses.activate({ key, instanceName: "laptop" });
+
+    expect(await readFile(path, "utf8")).not.toContain(key);
+
+    const { creem } = client({ path, mode: "replay", redact: [key] });
+    const license = await creem.licenses.activate({ key, instanceName: "laptop" });
+    expect(license.key).toBe("[REDACTED]");
+  });
+
+  it("does not retry unmatched requests", async () => {
+    await recordProducts();
+    const cassette = createCassette({ path, mode: "replay" });
+    const fetch = vi.fn(cassette.fetch);
+    // Retries are enabled by default
+    const creem = createCreem({ apiKey: API_KEY, fetch });
+
+    const error = await creem.products.get({ productId: "prod_other" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CassetteError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a missing cassette file", async () => {
+    const { creem } = client({ path, mode: "replay" });
+
+    await expect(creem.products.search()).rejects.toThrow(`Cannot read cassette ${path}`);
+  });
+});
@@ -0,0 +1,350 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createCreem } from "../index";
+import { run } from "../cli";
+import { parseArgs } from "../cli/args";
+import { buildSubscriptionEvent, createFakeCreemServer, signWebhookPayload } from "../testing";
+import { webhooksResource } from "../resources/webhooks";
+
+const START = Date.parse("2026-01-15T00:00:00.000Z");
+
+describe("creem CLI", () => {
+  let dir: string;
+  let server: ReturnType<typeof createFakeCreemServer>;
+  let urls: string[];
+  let env: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    dir = await mkdtemp(join(tmpdir(), "creem-cli-"));
+    server = createFakeCreemServer({ clock: () => START });
+    urls = [];
+    env = { CREEM_API_KEY: "creem_test_key", CREEM_CONFIG: join(dir, "config.json") };
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function creem(...argv: string[]) {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const code = await run(argv, {
+      env,
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+      fetch: (url, init) => {
+        urls.push(url);
+        return server.fetch(url, init);
+      },
+    });
+    return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+  }
+
+  async function subscribe() {
+    const product = server.createProduct({ name: "Pro", price: 2900 });
+    const client = createCreem({ apiKey: "creem_test_key", fetch: server.fetch });
+    const checkout = await client.checkouts.create({
+      productId: product.id,
+      customer: { email: "jane@example.com" },
+    });
+    return server.completeCheckout(checkout.id);
+  }
+
+  it("lists products as a table", async () => {
+    server.createProduct({ name: "Pro", price: 2900 });
+    server.createProduct({ name: "Lifetime", price: 9900, billing_type: "onetime" });
+
+    const { code, stdout } = await creem("products", "list");
+
+    expect(code).toBe(0);
+    expect(stdout).toBe(
+      [
+        "id      name      price  currency  billingPeriod  status",
+        "------  --------  -----  --------  -------------  ------",
+        "prod_1  Pro       2900   USD       every-month    active",
+        "prod_2  Lifetime  9900   USD       once           active",
+        "",
+        "Page 1 of 1 (2 total)",
+      ].join("\n"),
+    );
+  });
+
+  it("prints JSON with --json", async () => {
+    const { customer } = await subscribe();
+
+    const { stdout } = await creem("customers", "get", "--email", "jane@example.com", "--json");
+
+    expect(JSON.parse(stdout)).toMatchObject({
+      id: customer.id,
+      email: "jane@example.com",
+      createdAt: new Date(START).toISOString(),
+    });
+  });
+
+  it("shows single entities field by field", async () => {
+    const { customer } = await subscribe();
+
+    const { stdout } = await creem("customers", "portal", customer.id);
+
+    expect(stdout).toMatch(/^customerPortalLink {2}https:\/\//);
+  });
+
+  it("manages subscriptions", async () => {
+    const { subscription } = await subscribe();
+
+    const { stdout } = await creem("subscriptions", "cancel", subscription!.id, "--mode=scheduled");
+
+    expect(stdout).toMatch(/^status +scheduled_cancel$/m);
+    expect(stdout).toMatch(/^product +prod_1$/m);
+    expect(server.state.subscriptions.get(subscription!.id)!.status).toBe("scheduled_cancel");
+  });
+
+  it("creates and deletes discounts", async () => {
+    const product = server.createProduct();
+
+    const created = await creem(
+      "discounts",
+      "create",
+      "--name",
+      "Launch",
+      "--code",
+      "LAUNCH",
+      "--type",
+      "percentage",
+      "--percentage",
+      "20",
+      "--duration",
+      "once",
+      "--products",
+      product.id,
+      "--json",
+    );
+    expect(JSON.parse(created.stdout)).toMatchObject({ code: "LAUNCH", percentage: 20 });
+
+    expect((await creem("discounts", "delete", "dis_1")).code).toBe(0);
+    expect(server.state.discounts.size).toBe(0);
+  });
+
+  it("summarizes stats", async () => {
+    await subscribe();
+
+    const { stdout } = await creem("stats", "summary", "--currency", "USD", "--interval", "day");
+
+    expect(stdout).toContain("totalRevenue                2900");
+    expect(stdout).toContain("2026-01-15T00:00:00.000Z  2900          2900");
+  });
+
+  describe("configuration", () => {
+    it("uses the live API unless --test is passed", async () => {
+      await creem("products", "list");
+      await creem("products", "list", "--test");
+
+      expect(urls.map((url) => new URL(url).origin)).toEqual([
+        "https://api.creem.io",
+        "https://test-api.creem.io",
+      ]);
+    });
+
+    it("reads the API key from a profile", async () => {
+      const apiKeys: string[] = [];
+      server = createFakeCreemServer();
+      const fetch = server.fetch;
+      server.fetch = (url, init) => {
+        apiKeys.push((init.headers as Record<string, string>)["x-api-key"]);
+        return fetch(url, init);
+      };
+      await writeFile(
+        env.CREEM_CONFIG!,
+        JSON.stringify({
+          profiles: {
+            default: { apiKey: "creem_default_key" },
+            staging: { apiKey: "creem_test_staging_key", testMode: true },
+          },
+        }),
+      );
+
+      await creem("products", "list", "--profile", "staging");
+      await creem("products", "list");
+      delete env.CREEM_API_KEY;
+      await creem("products", "list");
+
+      expect(apiKeys).toEqual(["creem_test_staging_key", "creem_test_key", "creem_default_key"]);
+      expect(new URL(urls[0]).origin).toBe("https://test-api.creem.io");
+    });
+
+    it("fails without an API key or with an unknown profile", async () => {
+      delete env.CREEM_API_KEY;
+
+      expect(await creem("products", "list")).toMatchObject({
+        code: 1,
+        stderr:
+          "Error: No API key: set CREEM_API_KEY or add a profile with an apiKey to the config file",
+      });
+      expect((await creem("products", "list", "--profile", "prod")).stderr).toBe(
+        'Error: Profile "prod" not found in the config file',
+      );
+    });
+  });
+
+  describe("webhooks", () => {
+    const SECRET = "whsec_test_secret_123";
+    const WEBHOOK_URL = "http://localhost:3000/api/webhook";
+    let received: Request[];
+    let responseStatus: number;
+
+    beforeEach(() => {
+      received = [];
+      responseStatus = 200;
+      env.CREEM_WEBHOOK_SECRET = SECRET;
+      server.fetch = async (url, init) => {
+        received.push(new Request(url, init));
+        return new Response(responseStatus === 200 ? "OK" : "Handler failed", {
+          status: responseStatus,
+        });
+      };
+    });
+
+    it("triggers signed sample events that handleEvents accepts", async () => {
+      delete env.CREEM_API_KEY;
+      const onGrantAccess = vi.fn();
+
+      const { code, stdout } = await creem(
+        "webhooks",
+        "trigger",
+        "subscription.paid",
+        "--to",
+        WEBHOOK_URL,
+        "--data",
+        '{"metadata":{"referenceId":"user_123"}}',
+      );
+
+      expect(code).toBe(0);
+      expect(stdout).toMatch(/^evt_[0-9a-f]{24}\s+subscription\.paid\s+200$/m);
+      const request = received[0];
+      expect(request.url).toBe(WEBHOOK_URL);
+      await webhooksResource(SECRET).handleEvents(
+        await request.text(),
+        request.headers.get("creem-signature")!,
+        { onGrantAccess },
+      );
+      expect(onGrantAccess).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: "subscription_paid",
+          metadata: { referenceId: "user_123" },
+        }),
+      );
+    });
+
+    it("reports unknown event types, invalid data, missing secrets and failed deliveries", async () => {
+      expect(
+        (await creem("webhooks", "trigger", "order.created", "--to", WEBHOOK_URL)).stderr,
+      ).toMatch(/^Error: Unknown event type: order.created. Expected one of: checkout.completed, /);
+
+      responseStatus = 500;
+      expect(
+        (await creem("webhooks", "trigger", "refund.created", "--to", WEBHOOK_URL)).stderr,
+      ).toMatch(
+        /^Error: http:\/\/localhost:3000\/api\/webhook responded to refund.created \(evt_\w+\) with 500: Handler failed$/,
+      );
+
+      expect(
+        (await creem("webhooks", "trigger", "refund.created", "--to", WEBHOOK_URL, "--data", "[1]"))
+          .stderr,
+      ).toBe("Error: --data must be a JSON object");
+
+      delete env.CREEM_WEBHOOK_SECRET;
+      expect(
+        (await creem("webhooks", "trigger", "dispute.created", "--to", WEBHOOK_URL)).stderr,
+      ).toBe(
+        "Error: No webhook secret: pass --secret, set CREEM_WEBHOOK_SECRET or add a webhookSecret to the profile",
+      );
+    });
+
+    it("replays captured events", async () => {
+      const captured = JSON.stringify(buildSubscriptionEvent("subscription.canceled"), null, 2);
+      const single = join(dir, "event.json");
+      const many = join(dir, "events.json");
+      await writeFile(single, captured);
+      await writeFile(
+        many,
+        JSON.stringify([
+          buildSubscriptionEvent("subscription.active"),
+          buildSubscriptionEvent("subscription.expired"),
+        ]),
+      );
+
+      await creem("webhooks", "replay", single, "--to", WEBHOOK_URL, "--secret", "whsec_other");
+      const { stdout } = await creem("webhooks", "replay", many, "--to", WEBHOOK_URL, "--json");
+
+      expect(await received[0].text()).toBe(captured);
+      expect(received[0].headers.get("creem-signature")).toBe(
+        await signWebhookPayload(captured, "whsec_other"),
+      );
+      expect(JSON.parse(stdout).items.map((d: { eventType: string }) => d.eventType)).toEqual([
+        "subscription.active",
+        "subscription.expired",
+      ]);
+    });
+  });
+
+  describe("errors", () => {
+    it("prints usage for unknown commands", async () => {
+      const { code, stderr } = await creem("products", "delete");
+
+      expect(code).toBe(1);
+      expect(stderr).toMatch(/^Unknown command: products delete\n\nUsage: creem/);
+      expect((await creem("--help")).stdout).toContain("creem customers portal <customerId>");
+    });
+
+    it("reports missing arguments and API errors", async () => {
+      expect((await creem("products", "get")).stderr).toBe("Error: Missing argument: productId");
+      expect((await creem("products", "get", "prod_missing")).stderr).toBe(
+        "Error: Product not found",
+      );
+      expect((await creem("licenses", "validate", "KEY")).stderr).toBe(
+        "Error: Missing required flag: --instance-id",
+      );
+    });
+
+    it("lists validation errors", async () => {
+      const { code, stderr } = await creem(
+        "products",
+        "create",
+        "--name",
+        "Pro",
+        "--description",
+        "Pro plan",
+        "--price",
+        "10.5",
+        "--currency",
+        "usd",
+        "--billing-type",
+        "onetime",
+      );
+
+      expect(code).toBe(1);
+      expect(stderr.split("\n").slice(1)).toEqual([
+        "  - price must be an integer number",
+        "  - currency must be a valid ISO4217 currency code",
+      ]);
+    });
+  });
+});
+
+describe("parseArgs", () => {
+  it("parses positionals, valued flags and boolean flags", () => {
+    expect(
+      parseArgs(
+        ["customers", "get", "--email", "a@b.c", "--json", "--page=2", "--", "--x"],
+        ["json"],
+      ),
+    ).toEqual({
+      positionals: ["customers", "get", "--x"],
+      flags: { email: "a@b.c", json: true, page: "2" },
+    });
+    expect(() => parseArgs(["--email"], [])).toThrow("Missing value for --email");
+  });
+});
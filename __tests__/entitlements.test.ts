@@ -0,0 +1,270 @@
+import { describe, it, expect } from "vitest";
+import { webhooksResource } from "../resources/webhooks";
+import {
+  createEntitlements,
+  createMemoryEntitlementStore,
+  createSqliteEntitlementStore,
+  SqliteDatabase,
+} from "../entitlements";
+import {
+  buildCheckoutCompletedEvent,
+  buildSubscriptionEvent,
+  buildWebhookEvent,
+  signWebhookPayload,
+} from "../testing";
+import { Entitlement } from "../types/entitlements";
+
+const TEST_SECRET = "whsec_test_secret_123";
+const PRODUCT = "prod_test_product";
+const CUSTOMER = "cust_test_customer";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// node:sqlite ships with Node 22.5+; the SQLite store tests are skipped on older versions
+const sqlite: { DatabaseSync: new (path: string) => SqliteDatabase } | undefined = await import(
+  "node:sqlite" as string
+).catch(() => undefined);
+
+async function deliver(
+  entitlements: ReturnType<typeof createEntitlements>,
+  event: object,
+  accessPolicy = {},
+) {
+  const webhooks = webhooksResource(TEST_SECRET, { accessPolicy });
+  const payload = JSON.stringify(event);
+  await webhooks.handleEvents(
+    payload,
+    await signWebhookPayload(payload, TEST_SECRET),
+    entitlements.handlers,
+  );
+}
+
+describe("createEntitlements", () => {
+  it("grants access from subscription events", async () => {
+    const entitlements = createEntitlements();
+
+    expect(await entitlements.hasAccess(CUSTOMER, PRODUCT)).toBe(false);
+    await deliver(
+      entitlements,
+      buildSubscriptionEvent("subscription.active", { metadata: { referenceId: "user_123" } }),
+    );
+
+    expect(await entitlements.hasAccess(CUSTOMER, PRODUCT)).toBe(true);
+    expect(await entitlements.hasAccess("user_123", PRODUCT)).toBe(true);
+    expect(await entitlements.hasAccess(CUSTOMER, "prod_other")).toBe(false);
+    expect(await entitlements.list("user_123")).toEqual([
+      expect.objectContaining({
+        customerId: CUSTOMER,
+        referenceId: "user_123",
+        productId: PRODUCT,
+        status: "active",
+        reason: "subscription_active",
+        subscriptionId: "sub_test_subscription",
+        currentPeriodEnd: expect.any(Date),
+      }),
+    ]);
+  });
+
+  it("revokes access from subscription events", async () => {
+    const entitlements = createEntitlements();
+    const now = Date.now();
+
+    await deliver(
+      entitlements,
+      buildSubscriptionEvent("subscription.active", {}, { created_at: now }),
+    );
+    await deliver(
+      entitlements,
+      buildSubscriptionEvent("subscription.expired", {}, { created_at: now + DAY_MS }),
+    );
+
+    expect(await entitlements.hasAccess(CUSTOMER, PRODUCT)).toBe(false);
+    expect(await entitlements.list(CUSTOMER)).toEqual([
+      expect.objectContaining({ status: "revoked", reason: "subscription_expired" }),
+    ]);
+  });
+
+  it("ends subscription access once the current period is over", async () => {
+    let time = Date.now();
+    const entitlements = createEntitlements({ clock: () => time });
+    await deliver(entitlements, buildSubscriptionEvent("subscription.active"));
+
+    expect(await entitlements.hasAccess(CUSTOMER, PRODUCT)).toBe(true);
+    time += 31 * DAY_MS;
+    expect(await entitlements.hasAccess(CUSTOMER, PRODUCT)).toBe(false);
+  });
+
+  it("follows the webhook access policy", async () => {
+    const entitlements = createEntitlements();
+
+    await deliver(entitlements, buildSubscriptionEvent("subscription.past_due"), {
+      "subscription.past_due": "grant",
+    });
+
+    expect(await entitlements.hasAccess(CUSTOMER, PRODUCT)).toBe(true);
+  });
+
+  it("ignores events older than the stored entitlement", async () => {
+    const entitlements = createEntitlements();
+    const now = Date.now();
+
+    await deliver(
+      entitlements,
+      buildSubscriptionEvent("subscription.paused", {}, { created_at: now + DAY_MS }),
+    );
+    await deliver(
+      entitlements,
+      buildSubscriptionEvent("subscription.paid", {}, { created_at: now }),
+    );
+
+    expect(await entitlements.hasAccess(CUSTOMER, PRODUCT)).toBe(false);
+  });
+
+  it("keeps the reference id when a later event has no metadata", async () => {
+    const entitlements = createEntitlements();
+    const now = Date.now();
+
+    await deliver(
+      entitlements,
+      buildSubscriptionEvent(
+        "subscription.active",
+        { metadata: { referenceId: "user_123" } },
+        { created_at: now },
+      ),
+    );
+    await deliver(
+      entitlements,
+      buildSubscriptionEvent("subscription.paid", {}, { created_at: now + DAY_MS }),
+    );
+
+    expect(await entitlements.hasAccess("user_123", PRODUCT)).toBe(true);
+  });
+
+  it("grants one-time purchases on checkout and leaves subscription checkouts to their events", async () => {
+    const entitlements = createEntitlements();
+
+    await deliver(entitlements, buildCheckoutCompletedEvent());
+    expect(await entitlements.list(CUSTOMER)).toEqual([]);
+
+    await deliver(
+      entitlements,
+      buildCheckoutCompletedEvent({ subscription: null, order: { type: "onetime" } }),
+    );
+    expect(await entitlements.list(CUSTOMER)).toEqual([
+      expect.objectContaining({
+        productId: PRODUCT,
+        status: "active",
+        reason: "checkout_completed",
+        orderId: "ord_test_order",
+      }),
+    ]);
+  });
+
+  it("revokes what a refunded purchase granted when the policy revokes on refunds", async () => {
+    const entitlements = createEntitlements();
+    const now = Date.now();
+
+    await deliver(
+      entitlements,
+      buildCheckoutCompletedEvent({ subscription: null, order: { type: "onetime" } }),
+    );
+    await deliver(
+      entitlements,
+      buildWebhookEvent("refund.created", {
+        object: "refund",
+        id: "ref_1",
+        mode: "test",
+        status: "succeeded",
+        refund_amount: 2900,
+        refund_currency: "USD",
+        reason: "requested_by_customer",
+        transaction: { object: "transaction", id: "tran_1", order: "ord_test_order" },
+        customer: CUSTOMER,
+        created_at: now + DAY_MS,
+      }),
+      { "refund.created": "revoke" },
+    );
+
+    expect(await entitlements.hasAccess(CUSTOMER, PRODUCT)).toBe(false);
+    expect(await entitlements.list(CUSTOMER)).toEqual([
+      expect.objectContaining({ status: "revoked", reason: "refund_created" }),
+    ]);
+  });
+
+  it("reads the reference id with a custom function", async () => {
+    const entitlements = createEntitlements({
+      referenceId: (metadata) => metadata?.userId as string | undefined,
+    });
+
+    await deliver(
+      entitlements,
+      buildSubscriptionEvent("subscription.active", { metadata: { userId: "user_456" } }),
+    );
+
+    expect(await entitlements.hasAccess("user_456", PRODUCT)).toBe(true);
+  });
+});
+
+describe.each([
+  ["createMemoryEntitlementStore", () => createMemoryEntitlementStore()],
+  ...(sqlite
+    ? [
+        [
+          "createSqliteEntitlementStore",
+          () => createSqliteEntitlementStore(new sqlite.DatabaseSync(":memory:")),
+        ] as const,
+      ]
+    : []),
+])("%s", (_name, createStore) => {
+  const entitlement: Entitlement = {
+    customerId: CUSTOMER,
+    referenceId: "user_123",
+    productId: PRODUCT,
+    status: "active",
+    reason: "subscription_active",
+    currentPeriodEnd: new Date("2026-02-01T00:00:00.000Z"),
+    subscriptionId: "sub_1",
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+  };
+
+  it("stores entitlements by customer and product", async () => {
+    const store = createStore();
+
+    await store.set(entitlement);
+    await store.set({ ...entitlement, status: "revoked", reason: "subscription_expired" });
+
+    expect(await store.get(CUSTOMER, PRODUCT)).toEqual({
+      ...entitlement,
+      status: "revoked",
+      reason: "subscription_expired",
+    });
+    expect(await store.get(CUSTOMER, "prod_other")).toBeUndefined();
+  });
+
+  it("lists entitlements by customer id or reference id", async () => {
+    const store = createStore();
+    const oneTime: Entitlement = {
+      customerId: CUSTOMER,
+      productId: "prod_lifetime",
+      status: "active",
+      reason: "checkout_completed",
+      orderId: "ord_1",
+      updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+    };
+
+    await store.set(entitlement);
+    await store.set(oneTime);
+    await store.set({ ...entitlement, customerId: "cust_other", referenceId: "user_other" });
+
+    expect(await store.list(CUSTOMER)).toHaveLength(2);
+    expect(await store.list("user_123")).toEqual([entitlement]);
+    expect(await store.list("nobody")).toEqual([]);
+  });
+});
+
+describe.skipIf(!sqlite)("createSqliteEntitlementStore", () => {
+  it("rejects table names that are not identifiers", () => {
+    expect(() =>
+      createSqliteEntitlementStore(new sqlite!.DatabaseSync(":memory:"), { table: "x; DROP" }),
+    ).toThrow("Invalid entitlements table name: x; DROP");
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { CreemApiError, CreemValidationError, createApiError, parseRetryAfter } from "../errors";
+
+const baseOptions = { method: "GET", path: "/v1/products" };
+
+describe("createApiError", () => {
+  it("falls back to CreemApiError for unmapped statuses", () => {
+    const error = createApiError("Conflict", { ...baseOptions, status: 409 });
+    expect(error).toBeInstanceOf(CreemApiError);
+    expect(error.name).toBe("CreemApiError");
+    expect(error.status).toBe(409);
+  });
+
+  it("reads validation details from an errors array", () => {
+    const error = createApiError("Bad Request", {
+      ...baseOptions,
+      status: 422,
+      body: { errors: [{ field: "price", message: "must be positive" }] },
+    }) as CreemValidationError;
+
+    expect(error.name).toBe("CreemValidationError");
+    expect(error.details).toEqual([{ field: "price", message: "must be positive" }]);
+  });
+
+  it("leaves field undefined when a message has no property prefix", () => {
+    const error = createApiError("Bad Request", {
+      ...baseOptions,
+      status: 400,
+      body: { message: ["Invalid request"] },
+    }) as CreemValidationError;
+
+    expect(error.details).toEqual([{ field: undefined, message: "Invalid request" }]);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfter("12")).toBe(12);
+  });
+
+  it("parses HTTP dates relative to now", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT", now)).toBe(30);
+  });
+
+  it("returns undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
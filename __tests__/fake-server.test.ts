@@ -0,0 +1,366 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createCreem } from "../index";
+import { createFakeCreemServer } from "../testing";
+import { CreemAuthenticationError, CreemNotFoundError, CreemValidationError } from "../errors";
+
+const START = Date.parse("2026-01-15T00:00:00.000Z");
+
+function setup(options: Parameters<typeof createFakeCreemServer>[0] = {}) {
+  const server = createFakeCreemServer({ clock: () => START, ...options });
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  // Responses must match the SDK's declared types
+  const creem = createCreem({
+    apiKey: "creem_test_key",
+    fetch: server.fetch,
+    validateResponses: "throw",
+  });
+  return { server, creem };
+}
+
+async function subscribe({ server, creem }: ReturnType<typeof setup>) {
+  const product = server.createProduct({ name: "Pro", price: 2900 });
+  const checkout = await creem.checkouts.create({
+    productId: product.id,
+    customer: { email: "jane@example.com" },
+    metadata: { referenceId: "user_123" },
+  });
+  return { product, ...server.completeCheckout(checkout.id) };
+}
+
+describe("createFakeCreemServer", () => {
+  let fake: ReturnType<typeof setup>;
+
+  beforeEach(() => {
+    fake = setup();
+  });
+
+  describe("products", () => {
+    it("creates, gets and searches products", async () => {
+      const { creem } = fake;
+
+      const created = await creem.products.create({
+        name: "Lifetime",
+        description: "Lifetime access",
+        price: 9900,
+        currency: "EUR",
+        billingType: "onetime",
+      });
+      await creem.products.create({
+        name: "Monthly",
+        description: "Monthly access",
+        price: 900,
+        currency: "EUR",
+        billingType: "recurring",
+        billingPeriod: "every-month",
+      });
+
+      expect(created).toMatchObject({ id: "prod_1", name: "Lifetime", billingPeriod: "once" });
+      expect(await creem.products.get({ productId: created.id })).toEqual(created);
+
+      const { items, pagination } = await creem.products.search({ query: "month", limit: 1 });
+      expect(items.map((p) => p.name)).toEqual(["Monthly"]);
+      expect(pagination).toEqual({
+        totalRecords: 1,
+        totalPages: 1,
+        currentPage: 1,
+        nextPage: null,
+        prevPage: null,
+      });
+    });
+
+    it("rejects invalid products with the API's validation messages", async () => {
+      const error = await fake.creem.products
+        .create({
+          name: "Broken",
+          description: "Fails server-side validation",
+          price: 10.5,
+          currency: "usd",
+          billingType: "recurring",
+          billingPeriod: "every-week",
+        } as never)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(CreemValidationError);
+      expect(error.status).toBe(400);
+      expect(error.details.map((d: { message: string }) => d.message)).toEqual([
+        "price must be an integer number",
+        "currency must be a valid ISO4217 currency code",
+        "billing_period must be one of the following values: every-month, every-three-months, every-six-months, every-year",
+      ]);
+    });
+
+    it("responds 404 for unknown products", async () => {
+      const error = await fake.creem.products.get({ productId: "prod_missing" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(CreemNotFoundError);
+      expect(error.message).toBe("Product not found");
+    });
+  });
+
+  describe("checkouts", () => {
+    it("completes checkouts into a customer, order, transaction and subscription", async () => {
+      const { creem } = fake;
+      const { checkout, customer, subscription, order } = await subscribe(fake);
+
+      expect(await creem.checkouts.get({ checkoutId: checkout.id })).toMatchObject({
+        status: "completed",
+        order: { id: order.id, amountPaid: 2900, type: "recurring" },
+        customer: { id: customer.id, email: "jane@example.com" },
+        subscription: subscription!.id,
+      });
+      expect(await creem.subscriptions.get({ subscriptionId: subscription!.id })).toMatchObject({
+        status: "active",
+        product: { name: "Pro" },
+        customer: { email: "jane@example.com" },
+        currentPeriodEndDate: new Date("2026-02-15T00:00:00.000Z"),
+        metadata: { referenceId: "user_123" },
+      });
+      expect(await creem.customers.get({ email: "jane@example.com" })).toMatchObject({
+        id: customer.id,
+      });
+    });
+
+    it("applies discount codes", async () => {
+      const { server, creem } = fake;
+      const product = server.createProduct({ billing_type: "onetime", price: 5000 });
+      await creem.discounts.create({
+        name: "Launch",
+        code: "LAUNCH",
+        type: "percentage",
+        percentage: 20,
+        duration: "once",
+        appliesToProducts: [product.id],
+      });
+
+      const checkout = await creem.checkouts.create({
+        productId: product.id,
+        discountCode: "LAUNCH",
+      });
+      const { order, subscription } = server.completeCheckout(checkout.id);
+
+      expect(order).toMatchObject({ amount: 5000, discount_amount: 1000, amount_paid: 4000 });
+      expect(subscription).toBeUndefined();
+      expect(await creem.discounts.get({ discountCode: "LAUNCH" })).toMatchObject({
+        redeemCount: 1,
+      });
+    });
+
+    it("rejects checkouts for unknown products and customers", async () => {
+      const { creem } = fake;
+
+      await expect(creem.checkouts.create({ productId: "prod_missing" })).rejects.toThrow(
+        "Product not found",
+      );
+
+      const product = fake.server.createProduct();
+      await expect(
+        creem.checkouts.create({ productId: product.id, customer: { id: "cust_missing" } }),
+      ).rejects.toThrow("Customer not found");
+    });
+  });
+
+  describe("subscriptions", () => {
+    it("pauses, resumes and cancels", async () => {
+      const { creem } = fake;
+      const { subscription } = await subscribe(fake);
+      const subscriptionId = subscription!.id;
+
+      expect((await creem.subscriptions.pause({ subscriptionId })).status).toBe("paused");
+      await expect(creem.subscriptions.pause({ subscriptionId })).rejects.toThrow(
+        "Only active subscriptions can be paused",
+      );
+      expect((await creem.subscriptions.resume({ subscriptionId })).status).toBe("active");
+      expect((await creem.subscriptions.cancel({ subscriptionId, mode: "scheduled" })).status).toBe(
+        "scheduled_cancel",
+      );
+
+      const canceled = await creem.subscriptions.cancel({ subscriptionId });
+      expect(canceled.status).toBe("canceled");
+      expect(canceled.canceledAt).toEqual(new Date(START));
+      await expect(creem.subscriptions.resume({ subscriptionId })).rejects.toThrow(
+        "Subscription is canceled",
+      );
+    });
+
+    it("upgrades to another recurring product and updates units", async () => {
+      const { server, creem } = fake;
+      const { subscription } = await subscribe(fake);
+      const subscriptionId = subscription!.id;
+      const premium = server.createProduct({ name: "Premium", price: 4900 });
+      const lifetime = server.createProduct({ billing_type: "onetime" });
+
+      const upgraded = await creem.subscriptions.upgrade({
+        subscriptionId,
+        productId: premium.id,
+        updateBehavior: "proration-charge-immediately",
+      });
+      expect(upgraded.product).toMatchObject({ name: "Premium" });
+      expect(upgraded.items![0].productId).toBe(premium.id);
+
+      await expect(
+        creem.subscriptions.upgrade({ subscriptionId, productId: lifetime.id }),
+      ).rejects.toThrow("Subscriptions can only be upgraded to recurring products");
+
+      const updated = await creem.subscriptions.update({
+        subscriptionId,
+        items: [{ id: upgraded.items![0].id, units: 3 }],
+      });
+      expect(updated.items![0].units).toBe(3);
+    });
+  });
+
+  describe("transactions", () => {
+    it("searches transactions by customer, order and product", async () => {
+      const { creem } = fake;
+      const { customer, order, product, transaction } = await subscribe(fake);
+
+      for (const params of [
+        { customerId: customer.id },
+        { orderId: order.id },
+        { productId: product.id },
+      ]) {
+        const { items } = await creem.transactions.search(params);
+        expect(items.map((t) => t.id)).toEqual([transaction.id]);
+      }
+      expect((await creem.transactions.search({ customerId: "cust_other" })).items).toEqual([]);
+      expect(await creem.transactions.get({ transactionId: transaction.id })).toMatchObject({
+        amountPaid: 2900,
+        type: "invoice",
+        status: "paid",
+      });
+    });
+  });
+
+  describe("licenses", () => {
+    it("activates, validates and deactivates instances up to the activation limit", async () => {
+      const { server, creem } = fake;
+      const { key } = server.createLicense({ activation_limit: 1 });
+
+      const activated = await creem.licenses.activate({ key, instanceName: "laptop" });
+      expect(activated).toMatchObject({
+        status: "active",
+        activation: 1,
+        instance: { name: "laptop", status: "active" },
+      });
+      await expect(creem.licenses.activate({ key, instanceName: "desktop" })).rejects.toThrow(
+        "License key has reached its activation limit",
+      );
+
+      const instanceId = activated.instance!.id;
+      expect((await creem.licenses.validate({ key, instanceId })).instance!.id).toBe(instanceId);
+
+      const deactivated = await creem.licenses.deactivate({ key, instanceId });
+      expect(deactivated).toMatchObject({ activation: 0, instance: { status: "deactivated" } });
+    });
+
+    it("rejects unknown and expired keys", async () => {
+      const { server, creem } = fake;
+      const { key } = server.createLicense({ expires_at: new Date(START - 1).toISOString() });
+
+      await expect(creem.licenses.activate({ key: "nope", instanceName: "a" })).rejects.toThrow(
+        "License key not found",
+      );
+      await expect(creem.licenses.activate({ key, instanceName: "a" })).rejects.toThrow(
+        "License key has expired",
+      );
+    });
+  });
+
+  describe("discounts", () => {
+    it("creates, gets and deletes discounts", async () => {
+      const { server, creem } = fake;
+      const product = server.createProduct();
+
+      const created = await creem.discounts.create({
+        name: "Ten off",
+        type: "fixed",
+        amount: 1000,
+        currency: "USD",
+        duration: "repeating",
+        durationInMonths: 3,
+        appliesToProducts: [product.id],
+      });
+      expect(await creem.discounts.get({ discountId: created.id })).toEqual(created);
+
+      await creem.discounts.delete({ discountId: created.id });
+      await expect(creem.discounts.get({ discountId: created.id })).rejects.toThrow(
+        "Discount not found",
+      );
+    });
+
+    it("requires the fields of the discount type", async () => {
+      const error = await fake.creem.discounts
+        .create({ name: "Broken", type: "fixed", duration: "once", appliesToProducts: [] })
+        .catch((e) => e);
+
+      expect(error.details.map((d: { field?: string }) => d.field)).toEqual(["amount", "currency"]);
+    });
+  });
+
+  describe("stats", () => {
+    it("summarizes revenue and recurring revenue", async () => {
+      const { creem } = fake;
+      await subscribe(fake);
+
+      const summary = await creem.stats.getSummary({ currency: "USD", interval: "day" });
+
+      expect(summary.totals).toMatchObject({
+        totalProducts: 1,
+        totalCustomers: 1,
+        totalSubscriptions: 1,
+        activeSubscriptions: 1,
+        totalPayments: 1,
+        totalRevenue: 2900,
+        monthlyRecurringRevenue: 2900,
+      });
+      expect(summary.periods).toEqual([{ timestamp: START, grossRevenue: 2900, netRevenue: 2900 }]);
+    });
+  });
+
+  describe("requests", () => {
+    it("rejects requests without the configured API key", async () => {
+      const { creem } = setup({ apiKey: "creem_other_key" });
+
+      const error = await creem.products.search().catch((e) => e);
+
+      expect(error).toBeInstanceOf(CreemAuthenticationError);
+      expect(error.status).toBe(403);
+    });
+
+    it("replays responses for a repeated idempotency key", async () => {
+      const { server, creem } = fake;
+      const product = server.createProduct();
+
+      const first = await creem.checkouts.create(
+        { productId: product.id },
+        { idempotencyKey: "key_1" },
+      );
+      const second = await creem.checkouts.create(
+        { productId: product.id },
+        { idempotencyKey: "key_1" },
+      );
+
+      expect(second.id).toBe(first.id);
+      expect(server.state.checkouts.size).toBe(1);
+    });
+
+    it("records requests and resets its state", async () => {
+      const { server, creem } = fake;
+      await creem.products.search({ page: 2 });
+
+      expect(server.requests).toEqual([
+        expect.objectContaining({
+          method: "GET",
+          path: "/v1/products/search",
+          query: { page_number: "2" },
+        }),
+      ]);
+
+      server.createProduct();
+      server.reset();
+      expect(server.requests).toEqual([]);
+      expect(server.state.products.size).toBe(0);
+      expect(server.createProduct().id).toBe("prod_1");
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { hydrateDates } from "../hydrate";
+
+describe("hydrateDates", () => {
+  it("converts ISO string date fields of known entities", () => {
+    const result = hydrateDates({
+      object: "subscription",
+      id: "sub_1",
+      currentPeriodEndDate: "2026-02-01T00:00:00.000Z",
+      canceledAt: null,
+      status: "active",
+    });
+
+    expect(result.currentPeriodEndDate).toBeInstanceOf(Date);
+    expect(result.currentPeriodEndDate.toISOString()).toBe("2026-02-01T00:00:00.000Z");
+    expect(result.canceledAt).toBeNull();
+    expect(result.status).toBe("active");
+  });
+
+  it("converts numeric epoch fields in milliseconds and seconds", () => {
+    const result = hydrateDates({
+      object: "transaction",
+      createdAt: 1767225600000,
+      periodStart: 1767225600,
+    });
+
+    expect(result.createdAt.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+    expect(result.periodStart.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("hydrates nested entities and list items", () => {
+    const result = hydrateDates({
+      items: [
+        {
+          object: "license",
+          expiresAt: "2027-01-01T00:00:00.000Z",
+          instance: { object: "license-instance", createdAt: "2026-01-01T00:00:00.000Z" },
+        },
+      ],
+      pagination: { currentPage: 1 },
+    });
+
+    expect(result.items[0].expiresAt).toBeInstanceOf(Date);
+    expect(result.items[0].instance.createdAt).toBeInstanceOf(Date);
+    expect(result.pagination).toEqual({ currentPage: 1 });
+  });
+
+  it("leaves fields of unknown entities and unparseable values untouched", () => {
+    const result = hydrateDates({
+      object: "refund",
+      createdAt: 1700000000,
+      customer: { object: "customer", createdAt: "not a date" },
+    });
+
+    expect(result.createdAt).toBe(1700000000);
+    expect(result.customer.createdAt).toBe("not a date");
+  });
+});
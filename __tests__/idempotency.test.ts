@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryIdempotencyStore } from "../idempotency";
+
+describe("createMemoryIdempotencyStore", () => {
+  it("tracks the processing and done states of an event", () => {
+    const store = createMemoryIdempotencyStore();
+
+    expect(store.has("evt_1")).toBe(false);
+    expect(store.markProcessing("evt_1")).toBe(true);
+    expect(store.markProcessing("evt_1")).toBe(false);
+    expect(store.has("evt_1")).toBe(false);
+
+    store.markDone("evt_1");
+    expect(store.has("evt_1")).toBe(true);
+    expect(store.markProcessing("evt_1")).toBe(false);
+  });
+
+  it("lets a released event be claimed again", () => {
+    const store = createMemoryIdempotencyStore();
+
+    store.markProcessing("evt_1");
+    store.release("evt_1");
+
+    expect(store.markProcessing("evt_1")).toBe(true);
+  });
+
+  it("does not release events that are already done", () => {
+    const store = createMemoryIdempotencyStore();
+
+    store.markProcessing("evt_1");
+    store.markDone("evt_1");
+    store.release("evt_1");
+
+    expect(store.has("evt_1")).toBe(true);
+  });
+
+  it("evicts the least recently used ids beyond maxSize", () => {
+    const store = createMemoryIdempotencyStore({ maxSize: 2 });
+
+    store.markDone("evt_1");
+    store.markDone("evt_2");
+    store.has("evt_1"); // evt_2 is now the least recently used
+    store.markDone("evt_3");
+
+    expect(store.has("evt_1")).toBe(true);
+    expect(store.has("evt_2")).toBe(false);
+    expect(store.has("evt_3")).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from "vitest";
+import { paginate } from "../pagination";
+
+function makePages(totalPages: number, perPage = 2) {
+  return vi.fn(async (page: number) => ({
+    items: Array.from({ length: perPage }, (_, i) => `p${page}-${i}`),
+    pagination: {
+      totalRecords: totalPages * perPage,
+      totalPages,
+      currentPage: page,
+      nextPage: page < totalPages ? page + 1 : null,
+      prevPage: page > 1 ? page - 1 : null,
+    },
+  }));
+}
+
+describe("paginate", () => {
+  it("iterates over every item across pages", async () => {
+    const fetchPage = makePages(3);
+    const items: string[] = [];
+
+    for await (const item of paginate(fetchPage)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual(["p1-0", "p1-1", "p2-0", "p2-1", "p3-0", "p3-1"]);
+    expect(fetchPage.mock.calls.map((c) => c[0])).toEqual([1, 2, 3]);
+  });
+
+  it("starts from the given page", async () => {
+    const fetchPage = makePages(3);
+    const items = await paginate(fetchPage, { startPage: 3 }).toArray();
+
+    expect(items).toEqual(["p3-0", "p3-1"]);
+  });
+
+  it("toArray stops fetching once max items are collected", async () => {
+    const fetchPage = makePages(5);
+    const items = await paginate(fetchPage).toArray({ max: 3 });
+
+    expect(items).toEqual(["p1-0", "p1-1", "p2-0"]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it("prefetches up to the given number of pages concurrently", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const pages = makePages(6);
+    const fetchPage = async (page: number) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return pages(page);
+    };
+
+    const items = await paginate(fetchPage, { prefetch: 2 }).toArray();
+
+    expect(items).toHaveLength(12);
+    expect(items[items.length - 1]).toBe("p6-1");
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("propagates page errors", async () => {
+    const pages = makePages(3);
+    const fetchPage = vi.fn(async (page: number) => {
+      if (page === 2) throw new Error("boom");
+      return pages(page);
+    });
+
+    await expect(paginate(fetchPage, { prefetch: 2 }).toArray()).rejects.toThrow("boom");
+  });
+});
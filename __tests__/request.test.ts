@@ -1,5 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { createRequest } from "../request";
+import {
+  CreemApiError,
+  CreemAuthenticationError,
+  CreemNotFoundError,
+  CreemRateLimitError,
+  CreemServerError,
+  CreemTimeoutError,
+  CreemValidationError,
+} from "../errors";
 
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
@@ -29,6 +38,15 @@ describe("createRequest", () => {
     expect(url.pathname).toBe("/v1/products");
   });
 
+  it("uses an injected fetch implementation instead of the global one", async () => {
+    const customFetch = vi.fn().mockResolvedValue(jsonResponse({ id: "1" }));
+    const custom = createRequest("test-api-key", "http://localhost:4010/", { fetch: customFetch });
+    await custom("GET", "/v1/products");
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(customFetch.mock.calls[0][0]).toBe("http://localhost:4010/v1/products");
+  });
+
   it("appends query params to URL", async () => {
     mockFetch.mockResolvedValue(jsonResponse({ id: "1" }));
     await request("GET", "/v1/products", undefined, {
@@ -92,6 +110,25 @@ describe("createRequest", () => {
     expect(result.nestedObj.innerKey).toBe("val");
   });
 
+  it("hydrates entity timestamps into Date objects", async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({ object: "customer", id: "cust_1", created_at: "2026-01-01T00:00:00.000Z" }),
+    );
+
+    const result = await request<any>("GET", "/v1/customers");
+    expect(result.createdAt).toBeInstanceOf(Date);
+  });
+
+  it("keeps raw timestamps when hydrateDates is false", async () => {
+    const raw = createRequest("test-api-key", "https://test-api.creem.io", { hydrateDates: false });
+    mockFetch.mockResolvedValue(
+      jsonResponse({ object: "customer", id: "cust_1", created_at: "2026-01-01T00:00:00.000Z" }),
+    );
+
+    const result = await raw<any>("GET", "/v1/customers");
+    expect(result.createdAt).toBe("2026-01-01T00:00:00.000Z");
+  });
+
   it("returns empty object for 204 No Content", async () => {
     mockFetch.mockResolvedValue({
       ok: true,
@@ -135,4 +172,384 @@ describe("createRequest", () => {
 
     await expect(request("GET", "/v1/products")).rejects.toThrow("Unprocessable Entity");
   });
+
+  it("throws typed errors carrying status, method, path and body", async () => {
+    const body = { trace_id: "trace_123", status: 404, message: "Product not found" };
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      json: () => Promise.resolve(body),
+    });
+
+    const error = await request("GET", "/v1/products").catch((e) => e);
+    expect(error).toBeInstanceOf(CreemNotFoundError);
+    expect(error).toBeInstanceOf(CreemApiError);
+    expect(error.status).toBe(404);
+    expect(error.method).toBe("GET");
+    expect(error.path).toBe("/v1/products");
+    expect(error.body).toEqual(body);
+    expect(error.requestId).toBe("trace_123");
+  });
+
+  it.each([
+    [401, CreemAuthenticationError],
+    [403, CreemAuthenticationError],
+    [400, CreemValidationError],
+    [422, CreemValidationError],
+    [429, CreemRateLimitError],
+    [500, CreemServerError],
+    [503, CreemServerError],
+  ])("maps status %i to the matching error class", async (status, ErrorClass) => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status,
+      statusText: "Error",
+      json: () => Promise.resolve({ message: "failed" }),
+    });
+
+    await expect(request("GET", "/v1/products")).rejects.toBeInstanceOf(ErrorClass);
+  });
+
+  it("exposes field-level details on validation errors", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      json: () =>
+        Promise.resolve({ message: ["product_id must be a string", "units must be a number"] }),
+    });
+
+    const error = await request("POST", "/v1/checkouts", {}).catch((e) => e);
+    expect(error.message).toBe("product_id must be a string; units must be a number");
+    expect(error.details).toEqual([
+      { field: "product_id", message: "product_id must be a string" },
+      { field: "units", message: "units must be a number" },
+    ]);
+  });
+
+  it("reads Retry-After on rate limit errors", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 429,
+      statusText: "Too Many Requests",
+      headers: new Headers({ "retry-after": "7" }),
+      json: () => Promise.reject(new Error("not json")),
+    });
+
+    const error = await request("GET", "/v1/products").catch((e) => e);
+    expect(error).toBeInstanceOf(CreemRateLimitError);
+    expect(error.retryAfter).toBe(7);
+  });
+});
+
+describe("createRequest retries", () => {
+  const retrying = createRequest("test-api-key", "https://test-api.creem.io", {
+    retry: { baseDelayMs: 0, jitter: false },
+  });
+
+  function errorResponse(status: number, headers: Record<string, string> = {}) {
+    return {
+      ok: false,
+      status,
+      statusText: "Error",
+      headers: new Headers(headers),
+      json: () => Promise.resolve({ message: "failed" }),
+    };
+  }
+
+  it("does not retry when no retry policy is configured", async () => {
+    mockFetch.mockResolvedValue(errorResponse(503));
+
+    await expect(request("GET", "/v1/products")).rejects.toBeInstanceOf(CreemServerError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries retryable status codes until success", async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(502))
+      .mockResolvedValueOnce(errorResponse(429))
+      .mockResolvedValueOnce(jsonResponse({ id: "1" }));
+
+    await expect(retrying("GET", "/v1/products")).resolves.toEqual({ id: "1" });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after maxAttempts and throws the last error", async () => {
+    mockFetch.mockResolvedValue(errorResponse(503));
+
+    await expect(retrying("GET", "/v1/products")).rejects.toBeInstanceOf(CreemServerError);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry non-retryable status codes", async () => {
+    mockFetch.mockResolvedValue(errorResponse(404));
+
+    await expect(retrying("GET", "/v1/products")).rejects.toBeInstanceOf(CreemNotFoundError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network errors", async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(jsonResponse({ id: "1" }));
+
+    await expect(retrying("GET", "/v1/products")).resolves.toEqual({ id: "1" });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses retryOnNetworkError predicate to decide", async () => {
+    const selective = createRequest("test-api-key", "https://test-api.creem.io", {
+      retry: { baseDelayMs: 0, retryOnNetworkError: () => false },
+    });
+    mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+    await expect(selective("GET", "/v1/products")).rejects.toThrow("fetch failed");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry errors marked retryable: false", async () => {
+    mockFetch.mockRejectedValue(Object.assign(new Error("stubbed"), { retryable: false }));
+
+    await expect(retrying("GET", "/v1/products")).rejects.toThrow("stubbed");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry POST without an idempotency key", async () => {
+    mockFetch.mockResolvedValue(errorResponse(503));
+
+    await expect(retrying("POST", "/v1/checkouts", {})).rejects.toBeInstanceOf(CreemServerError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries POST with an idempotency key and sends it as a header", async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(503))
+      .mockResolvedValueOnce(jsonResponse({ id: "1" }));
+
+    await retrying("POST", "/v1/checkouts", {}, undefined, { idempotencyKey: "key_123" });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[0][1].headers["Idempotency-Key"]).toBe("key_123");
+    expect(mockFetch.mock.calls[1][1].headers["Idempotency-Key"]).toBe("key_123");
+  });
+
+  it("generates one idempotency key per call and reuses it across retries", async () => {
+    const auto = createRequest("test-api-key", "https://test-api.creem.io", {
+      retry: { baseDelayMs: 0 },
+      autoIdempotencyKey: true,
+    });
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(503))
+      .mockResolvedValueOnce(jsonResponse({ id: "1" }))
+      .mockResolvedValueOnce(jsonResponse({ id: "2" }));
+
+    await auto("POST", "/v1/checkouts", {});
+    await auto("POST", "/v1/checkouts", {});
+
+    const keys = mockFetch.mock.calls.map((call) => call[1].headers["Idempotency-Key"]);
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keys[1]).toBe(keys[0]);
+    expect(keys[2]).not.toBe(keys[0]);
+  });
+
+  it("prefers an explicit idempotency key and skips generation for GET", async () => {
+    const auto = createRequest("test-api-key", "https://test-api.creem.io", {
+      autoIdempotencyKey: true,
+    });
+    mockFetch.mockResolvedValue(jsonResponse({ id: "1" }));
+
+    await auto("POST", "/v1/checkouts", {}, undefined, { idempotencyKey: "key_123" });
+    await auto("GET", "/v1/products");
+
+    expect(mockFetch.mock.calls[0][1].headers["Idempotency-Key"]).toBe("key_123");
+    expect(mockFetch.mock.calls[1][1].headers["Idempotency-Key"]).toBeUndefined();
+  });
+
+  it("waits for Retry-After before retrying", async () => {
+    vi.useFakeTimers();
+    try {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, { "retry-after": "2" }))
+        .mockResolvedValueOnce(jsonResponse({ id: "1" }));
+
+      const promise = retrying("GET", "/v1/products");
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toEqual({ id: "1" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("throws instead of waiting when Retry-After exceeds maxDelayMs", async () => {
+    const capped = createRequest("test-api-key", "https://test-api.creem.io", {
+      retry: { maxDelayMs: 1000 },
+    });
+    mockFetch.mockResolvedValue(errorResponse(429, { "retry-after": "3600" }));
+
+    const error = await capped("GET", "/v1/products").catch((e) => e);
+    expect(error).toBeInstanceOf(CreemRateLimitError);
+    expect(error.retryAfter).toBe(3600);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createRequest timeouts and cancellation", () => {
+  function hangingFetch(_url: string, init: RequestInit) {
+    return new Promise((_resolve, reject) => {
+      init.signal?.addEventListener("abort", () => {
+        reject(Object.assign(new Error("This operation was aborted"), { name: "AbortError" }));
+      });
+    });
+  }
+
+  it("passes an abort signal to fetch", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ id: "1" }));
+    await request("GET", "/v1/products");
+
+    expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("throws CreemTimeoutError when the global timeout elapses", async () => {
+    const timed = createRequest("test-api-key", "https://test-api.creem.io", { timeoutMs: 10 });
+    mockFetch.mockImplementation(hangingFetch);
+
+    const error = await timed("GET", "/v1/products").catch((e) => e);
+    expect(error).toBeInstanceOf(CreemTimeoutError);
+    expect(error.timeoutMs).toBe(10);
+    expect(error.method).toBe("GET");
+    expect(error.path).toBe("/v1/products");
+  });
+
+  it("lets a per-call timeout override the global timeout", async () => {
+    const timed = createRequest("test-api-key", "https://test-api.creem.io", { timeoutMs: 60000 });
+    mockFetch.mockImplementation(hangingFetch);
+
+    const error = await timed("GET", "/v1/products", undefined, undefined, { timeoutMs: 5 }).catch(
+      (e) => e,
+    );
+    expect(error).toBeInstanceOf(CreemTimeoutError);
+    expect(error.timeoutMs).toBe(5);
+  });
+
+  it("retries timed out attempts", async () => {
+    const timed = createRequest("test-api-key", "https://test-api.creem.io", {
+      timeoutMs: 5,
+      retry: { baseDelayMs: 0 },
+    });
+    mockFetch.mockImplementationOnce(hangingFetch).mockResolvedValueOnce(jsonResponse({ id: "1" }));
+
+    await expect(timed("GET", "/v1/products")).resolves.toEqual({ id: "1" });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("aborts when the caller's signal fires and does not retry", async () => {
+    const retrying = createRequest("test-api-key", "https://test-api.creem.io", {
+      retry: { baseDelayMs: 0 },
+    });
+    mockFetch.mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const promise = retrying("GET", "/v1/products", undefined, undefined, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not call fetch when the signal is already aborted", async () => {
+    mockFetch.mockImplementation(hangingFetch);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      request("GET", "/v1/products", undefined, undefined, { signal: controller.signal }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("createRequest middleware", () => {
+  it("runs onRequest hooks in order and lets them mutate the request", async () => {
+    const calls: string[] = [];
+    const traced = createRequest("test-api-key", "https://test-api.creem.io", {
+      middleware: [
+        {
+          onRequest: (ctx) => {
+            calls.push("first");
+            ctx.headers["x-trace-id"] = "trace_1";
+          },
+        },
+        {
+          onRequest: (ctx) => {
+            calls.push("second");
+            return { ...ctx, query: { ...ctx.query, extra: "1" } };
+          },
+        },
+      ],
+    });
+    mockFetch.mockResolvedValue(jsonResponse({ id: "1" }));
+
+    await traced("GET", "/v1/products", undefined, { product_id: "prod_123" });
+
+    expect(calls).toEqual(["first", "second"]);
+    const url = new URL(mockFetch.mock.calls[0][0]);
+    expect(url.searchParams.get("extra")).toBe("1");
+    expect(url.searchParams.get("product_id")).toBe("prod_123");
+    expect(mockFetch.mock.calls[0][1].headers["x-trace-id"]).toBe("trace_1");
+  });
+
+  it("passes status, duration and parsed data to onResponse in reverse order", async () => {
+    const calls: string[] = [];
+    const onResponse = vi.fn(() => {
+      calls.push("inner");
+    });
+    const logged = createRequest("test-api-key", "https://test-api.creem.io", {
+      middleware: [{ onResponse: () => void calls.push("outer") }, { onResponse }],
+    });
+    mockFetch.mockResolvedValue(jsonResponse({ product_id: "prod_123" }));
+
+    await logged("POST", "/v1/products", { name: "Test" });
+
+    expect(calls).toEqual(["inner", "outer"]);
+    expect(onResponse).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "POST",
+        path: "/v1/products",
+        body: { name: "Test" },
+        status: 200,
+        attempt: 1,
+        durationMs: expect.any(Number),
+        data: { productId: "prod_123" },
+      }),
+    );
+  });
+
+  it("calls onError for every failed attempt", async () => {
+    const onError = vi.fn();
+    const retrying = createRequest("test-api-key", "https://test-api.creem.io", {
+      retry: { baseDelayMs: 0, maxAttempts: 2 },
+      middleware: [{ onError }],
+    });
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 503,
+      statusText: "Service Unavailable",
+      json: () => Promise.resolve({ message: "down" }),
+    });
+
+    await expect(retrying("GET", "/v1/products")).rejects.toBeInstanceOf(CreemServerError);
+
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[1][0]).toMatchObject({
+      status: 503,
+      attempt: 2,
+      error: expect.any(CreemServerError),
+    });
+  });
 });
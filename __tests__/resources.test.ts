@@ -21,10 +21,16 @@ describe("products", () => {
     const products = productsResource(req);
     await products.list({ page: 2, limit: 10 });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/products/search", undefined, {
-      page_number: 2,
-      page_size: 10,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/products/search",
+      undefined,
+      {
+        page_number: 2,
+        page_size: 10,
+      },
+      undefined,
+    );
   });
 
   it("list defaults to empty params", async () => {
@@ -32,10 +38,16 @@ describe("products", () => {
     const products = productsResource(req);
     await products.list();
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/products/search", undefined, {
-      page_number: undefined,
-      page_size: undefined,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/products/search",
+      undefined,
+      {
+        page_number: undefined,
+        page_size: undefined,
+      },
+      undefined,
+    );
   });
 
   it("get calls GET /v1/products with product_id", async () => {
@@ -43,9 +55,15 @@ describe("products", () => {
     const products = productsResource(req);
     await products.get({ productId: "prod_123" });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/products", undefined, {
-      product_id: "prod_123",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/products",
+      undefined,
+      {
+        product_id: "prod_123",
+      },
+      undefined,
+    );
   });
 
   it("get throws when productId is missing", () => {
@@ -83,6 +101,8 @@ describe("products", () => {
         currency: "USD",
         billing_type: "onetime",
       }),
+      undefined,
+      undefined,
     );
   });
 
@@ -121,6 +141,21 @@ describe("products", () => {
       "Parameter 'page' must be a number",
     );
   });
+
+  it("forwards per-call request options", async () => {
+    const req = createMockRequest();
+    const products = productsResource(req);
+    const signal = new AbortController().signal;
+    await products.get({ productId: "prod_123" }, { signal, timeoutMs: 1000 });
+
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/products",
+      undefined,
+      { product_id: "prod_123" },
+      { signal, timeoutMs: 1000 },
+    );
+  });
 });
 
 // ── Checkouts ─────────────────────────────────────────────────────
@@ -131,9 +166,15 @@ describe("checkouts", () => {
     const checkouts = checkoutsResource(req);
     await checkouts.get({ checkoutId: "chk_123" });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/checkouts", undefined, {
-      checkout_id: "chk_123",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/checkouts",
+      undefined,
+      {
+        checkout_id: "chk_123",
+      },
+      undefined,
+    );
   });
 
   it("get throws when checkoutId is missing", () => {
@@ -155,6 +196,8 @@ describe("checkouts", () => {
       expect.objectContaining({
         product_id: "prod_123",
       }),
+      undefined,
+      undefined,
     );
   });
 
@@ -194,6 +237,8 @@ describe("checkouts", () => {
         custom_fields: customFields,
         custom_field: customField,
       }),
+      undefined,
+      undefined,
     );
   });
 
@@ -226,17 +271,37 @@ describe("checkouts", () => {
       metadata: { key: "val" },
     });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/checkouts", {
-      request_id: "req_1",
-      product_id: "prod_123",
-      units: 3,
-      discount_code: "SAVE10",
-      customer: { email: "a@b.com" },
-      custom_fields: undefined,
-      custom_field: undefined,
-      success_url: "https://done.com",
-      metadata: { key: "val" },
-    });
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/checkouts",
+      {
+        request_id: "req_1",
+        product_id: "prod_123",
+        units: 3,
+        discount_code: "SAVE10",
+        customer: { email: "a@b.com" },
+        custom_fields: undefined,
+        custom_field: undefined,
+        success_url: "https://done.com",
+        metadata: { key: "val" },
+      },
+      undefined,
+      undefined,
+    );
+  });
+
+  it("create forwards the idempotency key", async () => {
+    const req = createMockRequest();
+    const checkouts = checkoutsResource(req);
+    await checkouts.create({ productId: "prod_123" }, { idempotencyKey: "key_123" });
+
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/checkouts",
+      expect.objectContaining({ product_id: "prod_123" }),
+      undefined,
+      { idempotencyKey: "key_123" },
+    );
   });
 });
 
@@ -248,10 +313,43 @@ describe("customers", () => {
     const customers = customersResource(req);
     await customers.list({ page: 1, limit: 20 });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/customers/list", undefined, {
-      page_number: 1,
-      page_size: 20,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/customers/list",
+      undefined,
+      {
+        page_number: 1,
+        page_size: 20,
+      },
+      undefined,
+    );
+  });
+
+  it("listAll requests successive pages from GET /v1/customers/list", async () => {
+    const req = vi.fn().mockImplementation(async (_m, _p, _d, query) => ({
+      items: [{ id: `cust_${query.page_number}` }],
+      pagination: { nextPage: query.page_number < 2 ? query.page_number + 1 : null, totalPages: 2 },
+    })) as unknown as RequestFn;
+    const customers = customersResource(req);
+
+    const items = await customers.listAll({ limit: 100 }).toArray();
+
+    expect(items.map((c) => c.id)).toEqual(["cust_1", "cust_2"]);
+    expect(req).toHaveBeenLastCalledWith(
+      "GET",
+      "/v1/customers/list",
+      undefined,
+      { page_number: 2, page_size: 100 },
+      undefined,
+    );
+  });
+
+  it("listAll throws when prefetch is not a number", () => {
+    const req = createMockRequest();
+    const customers = customersResource(req);
+    expect(() => customers.listAll({ prefetch: "2" as any })).toThrow(
+      "Parameter 'prefetch' must be a number",
+    );
   });
 
   it("get calls GET /v1/customers with customer_id", async () => {
@@ -259,10 +357,16 @@ describe("customers", () => {
     const customers = customersResource(req);
     await customers.get({ customerId: "cust_123" });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/customers", undefined, {
-      customer_id: "cust_123",
-      email: undefined,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/customers",
+      undefined,
+      {
+        customer_id: "cust_123",
+        email: undefined,
+      },
+      undefined,
+    );
   });
 
   it("get calls GET /v1/customers with email", async () => {
@@ -270,10 +374,16 @@ describe("customers", () => {
     const customers = customersResource(req);
     await customers.get({ email: "test@test.com" });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/customers", undefined, {
-      customer_id: undefined,
-      email: "test@test.com",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/customers",
+      undefined,
+      {
+        customer_id: undefined,
+        email: "test@test.com",
+      },
+      undefined,
+    );
   });
 
   it("get throws when neither customerId nor email is provided", () => {
@@ -287,9 +397,15 @@ describe("customers", () => {
     const customers = customersResource(req);
     await customers.createPortal({ customerId: "cust_123" });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/customers/billing", {
-      customer_id: "cust_123",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/customers/billing",
+      {
+        customer_id: "cust_123",
+      },
+      undefined,
+      undefined,
+    );
   });
 
   it("createPortal throws when customerId is missing", () => {
@@ -309,9 +425,15 @@ describe("subscriptions", () => {
     const subs = subscriptionsResource(req);
     await subs.get({ subscriptionId: "sub_123" });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/subscriptions", undefined, {
-      subscription_id: "sub_123",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/subscriptions",
+      undefined,
+      {
+        subscription_id: "sub_123",
+      },
+      undefined,
+    );
   });
 
   it("get throws when subscriptionId is missing", () => {
@@ -327,9 +449,15 @@ describe("subscriptions", () => {
     const subs = subscriptionsResource(req);
     await subs.cancel({ subscriptionId: "sub_123", mode: "immediate" });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/subscriptions/sub_123/cancel", {
-      mode: "immediate",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/subscriptions/sub_123/cancel",
+      {
+        mode: "immediate",
+      },
+      undefined,
+      undefined,
+    );
   });
 
   it("update calls POST /v1/subscriptions/{id} with snake_case items", async () => {
@@ -341,10 +469,16 @@ describe("subscriptions", () => {
       updateBehavior: "proration-charge-immediately",
     });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/subscriptions/sub_123", {
-      items: [{ id: undefined, product_id: "prod_1", price_id: undefined, units: 2 }],
-      update_behavior: "proration-charge-immediately",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/subscriptions/sub_123",
+      {
+        items: [{ id: undefined, product_id: "prod_1", price_id: undefined, units: 2 }],
+        update_behavior: "proration-charge-immediately",
+      },
+      undefined,
+      undefined,
+    );
   });
 
   it("upgrade calls POST /v1/subscriptions/{id}/upgrade", async () => {
@@ -352,10 +486,16 @@ describe("subscriptions", () => {
     const subs = subscriptionsResource(req);
     await subs.upgrade({ subscriptionId: "sub_123", productId: "prod_456" });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/subscriptions/sub_123/upgrade", {
-      product_id: "prod_456",
-      update_behavior: undefined,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/subscriptions/sub_123/upgrade",
+      {
+        product_id: "prod_456",
+        update_behavior: undefined,
+      },
+      undefined,
+      undefined,
+    );
   });
 
   it("upgrade throws when productId is missing", () => {
@@ -371,7 +511,13 @@ describe("subscriptions", () => {
     const subs = subscriptionsResource(req);
     await subs.pause({ subscriptionId: "sub_123" });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/subscriptions/sub_123/pause");
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/subscriptions/sub_123/pause",
+      undefined,
+      undefined,
+      undefined,
+    );
   });
 
   it("resume calls POST /v1/subscriptions/{id}/resume", async () => {
@@ -379,7 +525,13 @@ describe("subscriptions", () => {
     const subs = subscriptionsResource(req);
     await subs.resume({ subscriptionId: "sub_123" });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/subscriptions/sub_123/resume");
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/subscriptions/sub_123/resume",
+      undefined,
+      undefined,
+      undefined,
+    );
   });
 });
 
@@ -391,9 +543,15 @@ describe("transactions", () => {
     const txns = transactionsResource(req);
     await txns.get({ transactionId: "txn_123" });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/transactions", undefined, {
-      transaction_id: "txn_123",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/transactions",
+      undefined,
+      {
+        transaction_id: "txn_123",
+      },
+      undefined,
+    );
   });
 
   it("get throws when transactionId is missing", () => {
@@ -409,13 +567,19 @@ describe("transactions", () => {
     const txns = transactionsResource(req);
     await txns.list({ customerId: "cust_1", page: 1, limit: 10 });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/transactions/search", undefined, {
-      customer_id: "cust_1",
-      order_id: undefined,
-      product_id: undefined,
-      page_number: 1,
-      page_size: 10,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/transactions/search",
+      undefined,
+      {
+        customer_id: "cust_1",
+        order_id: undefined,
+        product_id: undefined,
+        page_number: 1,
+        page_size: 10,
+      },
+      undefined,
+    );
   });
 
   it("list throws when productId is not a string", () => {
@@ -435,10 +599,16 @@ describe("licenses", () => {
     const licenses = licensesResource(req);
     await licenses.activate({ key: "LIC-123", instanceName: "my-machine" });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/licenses/activate", {
-      key: "LIC-123",
-      instance_name: "my-machine",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/licenses/activate",
+      {
+        key: "LIC-123",
+        instance_name: "my-machine",
+      },
+      undefined,
+      undefined,
+    );
   });
 
   it("activate throws when key is missing", () => {
@@ -462,10 +632,16 @@ describe("licenses", () => {
     const licenses = licensesResource(req);
     await licenses.deactivate({ key: "LIC-123", instanceId: "inst_1" });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/licenses/deactivate", {
-      key: "LIC-123",
-      instance_id: "inst_1",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/licenses/deactivate",
+      {
+        key: "LIC-123",
+        instance_id: "inst_1",
+      },
+      undefined,
+      undefined,
+    );
   });
 
   it("validate calls POST /v1/licenses/validate", async () => {
@@ -473,10 +649,16 @@ describe("licenses", () => {
     const licenses = licensesResource(req);
     await licenses.validate({ key: "LIC-123", instanceId: "inst_1" });
 
-    expect(req).toHaveBeenCalledWith("POST", "/v1/licenses/validate", {
-      key: "LIC-123",
-      instance_id: "inst_1",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "POST",
+      "/v1/licenses/validate",
+      {
+        key: "LIC-123",
+        instance_id: "inst_1",
+      },
+      undefined,
+      undefined,
+    );
   });
 
   it("validate throws when instanceId is missing", () => {
@@ -496,10 +678,16 @@ describe("discounts", () => {
     const discounts = discountsResource(req);
     await discounts.get({ discountId: "disc_123" });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/discounts", undefined, {
-      discount_id: "disc_123",
-      discount_code: undefined,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/discounts",
+      undefined,
+      {
+        discount_id: "disc_123",
+        discount_code: undefined,
+      },
+      undefined,
+    );
   });
 
   it("get calls GET /v1/discounts with discount_code", async () => {
@@ -507,10 +695,16 @@ describe("discounts", () => {
     const discounts = discountsResource(req);
     await discounts.get({ discountCode: "SAVE10" });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/discounts", undefined, {
-      discount_id: undefined,
-      discount_code: "SAVE10",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/discounts",
+      undefined,
+      {
+        discount_id: undefined,
+        discount_code: "SAVE10",
+      },
+      undefined,
+    );
   });
 
   it("get throws when neither discountId nor discountCode is provided", () => {
@@ -542,6 +736,8 @@ describe("discounts", () => {
         duration: "once",
         applies_to_products: ["prod_1"],
       }),
+      undefined,
+      undefined,
     );
   });
 
@@ -566,7 +762,13 @@ describe("discounts", () => {
     const discounts = discountsResource(req);
     await discounts.delete({ discountId: "disc_123" });
 
-    expect(req).toHaveBeenCalledWith("DELETE", "/v1/discounts/disc_123/delete");
+    expect(req).toHaveBeenCalledWith(
+      "DELETE",
+      "/v1/discounts/disc_123/delete",
+      undefined,
+      undefined,
+      undefined,
+    );
   });
 
   it("delete throws when discountId is missing", () => {
@@ -586,12 +788,18 @@ describe("stats", () => {
     const stats = statsResource(req);
     await stats.getSummary({ currency: "USD" });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/stats/summary", undefined, {
-      currency: "USD",
-      start_date: undefined,
-      end_date: undefined,
-      interval: undefined,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/stats/summary",
+      undefined,
+      {
+        currency: "USD",
+        start_date: undefined,
+        end_date: undefined,
+        interval: undefined,
+      },
+      undefined,
+    );
   });
 
   it("getSummary passes all optional params", async () => {
@@ -604,12 +812,18 @@ describe("stats", () => {
       interval: "month",
     });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/stats/summary", undefined, {
-      currency: "EUR",
-      start_date: 1700000000,
-      end_date: 1700100000,
-      interval: "month",
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/stats/summary",
+      undefined,
+      {
+        currency: "EUR",
+        start_date: 1700000000,
+        end_date: 1700100000,
+        interval: "month",
+      },
+      undefined,
+    );
   });
 
   it("getSummary throws when currency is missing", () => {
@@ -661,11 +875,17 @@ describe("products.search", () => {
     const products = productsResource(req);
     await products.search({ query: "pro plan", page: 1, limit: 10 });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/products/search", undefined, {
-      query: "pro plan",
-      page_number: 1,
-      page_size: 10,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/products/search",
+      undefined,
+      {
+        query: "pro plan",
+        page_number: 1,
+        page_size: 10,
+      },
+      undefined,
+    );
   });
 
   it("search defaults to empty params", async () => {
@@ -673,11 +893,17 @@ describe("products.search", () => {
     const products = productsResource(req);
     await products.search();
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/products/search", undefined, {
-      query: undefined,
-      page_number: undefined,
-      page_size: undefined,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/products/search",
+      undefined,
+      {
+        query: undefined,
+        page_number: undefined,
+        page_size: undefined,
+      },
+      undefined,
+    );
   });
 
   it("search throws when query is not a string", () => {
@@ -712,14 +938,20 @@ describe("transactions.search", () => {
       limit: 25,
     });
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/transactions/search", undefined, {
-      query: "invoice",
-      customer_id: "cust_1",
-      order_id: "ord_1",
-      product_id: "prod_1",
-      page_number: 2,
-      page_size: 25,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/transactions/search",
+      undefined,
+      {
+        query: "invoice",
+        customer_id: "cust_1",
+        order_id: "ord_1",
+        product_id: "prod_1",
+        page_number: 2,
+        page_size: 25,
+      },
+      undefined,
+    );
   });
 
   it("search defaults to empty params", async () => {
@@ -727,14 +959,20 @@ describe("transactions.search", () => {
     const txns = transactionsResource(req);
     await txns.search();
 
-    expect(req).toHaveBeenCalledWith("GET", "/v1/transactions/search", undefined, {
-      query: undefined,
-      customer_id: undefined,
-      order_id: undefined,
-      product_id: undefined,
-      page_number: undefined,
-      page_size: undefined,
-    });
+    expect(req).toHaveBeenCalledWith(
+      "GET",
+      "/v1/transactions/search",
+      undefined,
+      {
+        query: undefined,
+        customer_id: undefined,
+        order_id: undefined,
+        product_id: undefined,
+        page_number: undefined,
+        page_size: undefined,
+      },
+      undefined,
+    );
   });
 
   it("search throws when query is not a string", () => {
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from "vitest";
+import { validateResponse } from "../schemas";
+import { createRequest } from "../request";
+import { CreemSchemaError } from "../errors";
+
+const product = {
+  id: "prod_1",
+  mode: "test",
+  object: "product",
+  name: "Pro",
+  description: "Pro plan",
+  price: 1000,
+  currency: "USD",
+  billingType: "recurring",
+  billingPeriod: "every-month",
+  status: "active",
+  taxMode: "exclusive",
+  taxCategory: "saas",
+  createdAt: new Date("2026-01-01T00:00:00.000Z"),
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+function jsonResponse(data: unknown) {
+  return { ok: true, status: 200, statusText: "OK", json: () => Promise.resolve(data) };
+}
+
+describe("validateResponse", () => {
+  it("returns undefined when the response matches its declared type", () => {
+    expect(validateResponse("GET", "/v1/products", product)).toBeUndefined();
+  });
+
+  it("reports unexpected, missing and mistyped fields", () => {
+    const { name: _name, ...withoutName } = product;
+    const report = validateResponse("GET", "/v1/products", {
+      ...withoutName,
+      price: "1000",
+      trialDays: 7,
+    });
+
+    expect(report).toMatchObject({ method: "GET", path: "/v1/products", schema: "Product" });
+    expect(report!.issues).toEqual([
+      { path: "name", kind: "missing" },
+      { path: "price", kind: "type", expected: "number", received: "string" },
+      { path: "trialDays", kind: "unexpected" },
+    ]);
+  });
+
+  it("reports new enum values", () => {
+    const report = validateResponse("GET", "/v1/products", { ...product, status: "draft" });
+
+    expect(report!.issues).toEqual([
+      { path: "status", kind: "type", expected: '"active" | "archived"', received: "string" },
+    ]);
+  });
+
+  it("reports nested entity drift by path", () => {
+    const report = validateResponse("GET", "/v1/subscriptions", {
+      id: "sub_1",
+      mode: "test",
+      object: "subscription",
+      product: { ...product, extra: true },
+      customer: "cust_1",
+      collectionMethod: "charge_automatically",
+      status: "active",
+      currentPeriodStartDate: "2026-01-01T00:00:00.000Z",
+      currentPeriodEndDate: "2026-02-01T00:00:00.000Z",
+      canceledAt: null,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      metadata: { anything: "goes" },
+    });
+
+    expect(report!.schema).toBe("Subscription");
+    expect(report!.issues).toEqual([{ path: "product.extra", kind: "unexpected" }]);
+  });
+
+  it("validates paginated lists", () => {
+    const report = validateResponse("GET", "/v1/products/search", {
+      items: [product, { ...product, price: null }],
+      pagination: {
+        totalRecords: 2,
+        totalPages: 1,
+        currentPage: 1,
+        nextPage: null,
+        prevPage: null,
+      },
+    });
+
+    expect(report!.issues).toEqual([
+      { path: "items[1].price", kind: "type", expected: "number", received: "null" },
+    ]);
+  });
+
+  it("ignores endpoints without a declared type", () => {
+    expect(validateResponse("GET", "/v1/unknown", { anything: true })).toBeUndefined();
+  });
+});
+
+describe("createRequest response validation", () => {
+  const drifted = { ...product, trialDays: 7 };
+
+  it("does not validate unless enabled", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const request = createRequest("key", "https://test-api.creem.io", {
+      fetch: vi.fn().mockResolvedValue(jsonResponse(drifted)),
+    });
+
+    await request("GET", "/v1/products");
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("passes drift reports to onSchemaDrift in warn mode and still resolves", async () => {
+    const onSchemaDrift = vi.fn();
+    const request = createRequest("key", "https://test-api.creem.io", {
+      fetch: vi.fn().mockResolvedValue(jsonResponse({ ...drifted, trial_days: 7 })),
+      validateResponses: "warn",
+      onSchemaDrift,
+    });
+
+    const result = await request<{ id: string }>("GET", "/v1/products");
+
+    expect(result.id).toBe("prod_1");
+    expect(onSchemaDrift).toHaveBeenCalledWith(
+      expect.objectContaining({
+        schema: "Product",
+        issues: [{ path: "trialDays", kind: "unexpected" }],
+      }),
+    );
+  });
+
+  it("logs drift with console.warn by default", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const request = createRequest("key", "https://test-api.creem.io", {
+      fetch: vi.fn().mockResolvedValue(jsonResponse(drifted)),
+      validateResponses: "warn",
+    });
+
+    await request("GET", "/v1/products");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("unexpected trialDays"));
+    warn.mockRestore();
+  });
+
+  it("rejects with CreemSchemaError in throw mode", async () => {
+    const request = createRequest("key", "https://test-api.creem.io", {
+      fetch: vi.fn().mockResolvedValue(jsonResponse(drifted)),
+      validateResponses: "throw",
+    });
+
+    const error = await request("GET", "/v1/products").catch((e) => e);
+
+    expect(error).toBeInstanceOf(CreemSchemaError);
+    expect(error.report.issues).toEqual([{ path: "trialDays", kind: "unexpected" }]);
+    expect(error.message).toBe(
+      "Response of GET /v1/products does not match Product: unexpected trialDays",
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import crypto from "crypto";
+import { hmacSha256Hex, timingSafeEqual, toBytes, toText } from "../signature";
+
+const SECRET = "whsec_test_secret_123";
+const PAYLOAD = '{"id":"evt_1","eventType":"checkout.completed","note":"café"}';
+const EXPECTED = crypto.createHmac("sha256", SECRET).update(PAYLOAD).digest("hex");
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("hmacSha256Hex", () => {
+  it("matches Node's HMAC for string, Uint8Array and ArrayBuffer payloads", async () => {
+    const bytes = new TextEncoder().encode(PAYLOAD);
+
+    expect(await hmacSha256Hex(PAYLOAD, SECRET)).toBe(EXPECTED);
+    expect(await hmacSha256Hex(bytes, SECRET)).toBe(EXPECTED);
+    expect(await hmacSha256Hex(bytes.buffer, SECRET)).toBe(EXPECTED);
+    expect(await hmacSha256Hex(Buffer.from(PAYLOAD), SECRET)).toBe(EXPECTED);
+  });
+
+  it("falls back to Node's crypto module without Web Crypto", async () => {
+    vi.stubGlobal("crypto", undefined);
+
+    expect(await hmacSha256Hex(PAYLOAD, SECRET)).toBe(EXPECTED);
+  });
+});
+
+describe("timingSafeEqual", () => {
+  it("compares strings", () => {
+    expect(timingSafeEqual("abc123", "abc123")).toBe(true);
+    expect(timingSafeEqual("abc123", "abc124")).toBe(false);
+    expect(timingSafeEqual("abc", "abc123")).toBe(false);
+  });
+});
+
+describe("toBytes / toText", () => {
+  it("round-trips UTF-8 payloads", () => {
+    const bytes = toBytes(PAYLOAD);
+
+    expect(toText(bytes)).toBe(PAYLOAD);
+    expect(toText(bytes.buffer)).toBe(PAYLOAD);
+    expect(toBytes(bytes)).toBe(bytes);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createCreem } from "../index";
+import { createEntitlements } from "../entitlements";
+import { webhooksResource } from "../resources/webhooks";
+import { createSubscriptionSimulator, SubscriptionSimulatorOptions } from "../testing";
+
+const TEST_SECRET = "whsec_test_secret_123";
+const START = Date.parse("2026-01-15T00:00:00.000Z");
+
+function setup(options: Partial<SubscriptionSimulatorOptions> = {}) {
+  const entitlements = createEntitlements({ clock: () => simulator.now().getTime() });
+  const webhooks = webhooksResource(TEST_SECRET);
+  const simulator = createSubscriptionSimulator({
+    webhookSecret: TEST_SECRET,
+    deliver: (payload, signature) =>
+      webhooks.handleEvents(payload, signature, entitlements.handlers),
+    startTime: START,
+    ...options,
+  });
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  const creem = createCreem({ apiKey: "creem_test_key", fetch: simulator.fetch });
+  return { simulator, creem, entitlements };
+}
+
+async function subscribe({ simulator, creem }: ReturnType<typeof setup>, trialDays?: number) {
+  const product = simulator.server.createProduct({ price: 2900 });
+  const checkout = await creem.checkouts.create({
+    productId: product.id,
+    metadata: { referenceId: "user_123" },
+  });
+  const { subscription } = await simulator.completeCheckout(checkout.id, { trialDays });
+  return { product, subscriptionId: subscription!.id };
+}
+
+const eventTypes = (simulator: ReturnType<typeof setup>["simulator"]) =>
+  simulator.events.map(
+    (e) => `${new Date(e.created_at).toISOString().slice(0, 10)} ${e.eventType}`,
+  );
+
+describe("createSubscriptionSimulator", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("moves a trial to active and renews it every period", async () => {
+    const fake = setup();
+    const { product, subscriptionId } = await subscribe(fake, 14);
+
+    expect(await fake.entitlements.hasAccess("user_123", product.id)).toBe(true);
+    await fake.simulator.advance({ days: 60 });
+
+    expect(eventTypes(fake.simulator)).toEqual([
+      "2026-01-15 checkout.completed",
+      "2026-01-15 subscription.trialing",
+      "2026-01-29 subscription.active",
+      "2026-01-29 subscription.paid",
+      "2026-03-01 subscription.paid",
+    ]);
+    expect(await fake.creem.subscriptions.get({ subscriptionId })).toMatchObject({
+      status: "active",
+      currentPeriodEndDate: new Date("2026-04-01T00:00:00.000Z"),
+    });
+    expect(fake.simulator.now()).toEqual(new Date("2026-03-16T00:00:00.000Z"));
+  });
+
+  it("retries failed renewals, then marks the subscription unpaid and expires it", async () => {
+    const fake = setup();
+    const { product, subscriptionId } = await subscribe(fake);
+
+    fake.simulator.failPayments(subscriptionId);
+    await fake.simulator.advance({ days: 60 });
+
+    expect(eventTypes(fake.simulator)).toEqual([
+      "2026-01-15 checkout.completed",
+      "2026-01-15 subscription.active",
+      "2026-01-15 subscription.paid",
+      "2026-02-15 subscription.past_due",
+      "2026-03-02 subscription.unpaid",
+      "2026-03-09 subscription.expired",
+    ]);
+    expect((await fake.creem.subscriptions.get({ subscriptionId })).status).toBe("canceled");
+    expect(await fake.entitlements.hasAccess("user_123", product.id)).toBe(false);
+  });
+
+  it("recovers when a payment retry succeeds", async () => {
+    const fake = setup({ paymentRetryDays: [2] });
+    const { subscriptionId } = await subscribe(fake);
+
+    fake.simulator.failPayments(subscriptionId);
+    await fake.simulator.advance({ days: 31 });
+    fake.simulator.failPayments(subscriptionId, false);
+    await fake.simulator.advance({ days: 2 });
+
+    expect(eventTypes(fake.simulator).slice(3)).toEqual([
+      "2026-02-15 subscription.past_due",
+      "2026-02-17 subscription.active",
+      "2026-02-17 subscription.paid",
+    ]);
+  });
+
+  it("delivers the webhooks of subscription changes made through the API", async () => {
+    const fake = setup();
+    const { product, subscriptionId } = await subscribe(fake);
+
+    await fake.creem.subscriptions.pause({ subscriptionId });
+    await fake.creem.subscriptions.resume({ subscriptionId });
+    await fake.creem.subscriptions.cancel({ subscriptionId, mode: "scheduled" });
+    await expect(
+      fake.creem.subscriptions.pause({ subscriptionId: "sub_missing" }),
+    ).rejects.toThrow();
+    expect(await fake.entitlements.hasAccess("user_123", product.id)).toBe(true);
+
+    await fake.simulator.advance({ days: 31 });
+
+    expect(eventTypes(fake.simulator).slice(3)).toEqual([
+      "2026-01-15 subscription.paused",
+      "2026-01-15 subscription.active",
+      "2026-01-15 subscription.scheduled_cancel",
+      "2026-02-15 subscription.expired",
+    ]);
+    expect(await fake.entitlements.hasAccess("user_123", product.id)).toBe(false);
+  });
+
+  it("ends access at the period end after an immediate cancel", async () => {
+    const fake = setup();
+    const { product, subscriptionId } = await subscribe(fake);
+
+    await fake.creem.subscriptions.cancel({ subscriptionId, mode: "immediate" });
+    await fake.simulator.advance({ days: 400 });
+
+    expect(eventTypes(fake.simulator).slice(3)).toEqual(["2026-01-15 subscription.canceled"]);
+    expect(await fake.entitlements.hasAccess("user_123", product.id)).toBe(false);
+  });
+
+  it("POSTs signed webhooks to a URL", async () => {
+    const received: Request[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init: RequestInit) => {
+        received.push(new Request(url, init));
+        return new Response(null, { status: received.length > 2 ? 500 : 200 });
+      }),
+    );
+    const fake = setup({ deliver: "http://localhost:3000/webhook" });
+    const product = fake.simulator.server.createProduct();
+    const checkout = await fake.creem.checkouts.create({ productId: product.id });
+
+    await expect(fake.simulator.completeCheckout(checkout.id)).rejects.toThrow(
+      "Webhook delivery to http://localhost:3000/webhook failed with status 500",
+    );
+
+    const webhooks = webhooksResource(TEST_SECRET);
+    const onCheckoutCompleted = vi.fn();
+    const request = received[0];
+    expect(request.method).toBe("POST");
+    await webhooks.handleEvents(await request.text(), request.headers.get("creem-signature")!, {
+      onCheckoutCompleted,
+    });
+    expect(onCheckoutCompleted).toHaveBeenCalledWith(
+      expect.objectContaining({ subscription: expect.objectContaining({ status: "active" }) }),
+    );
+  });
+
+  it("does not move the clock backwards", async () => {
+    const { simulator } = setup();
+
+    await expect(simulator.advanceTo(START - 1)).rejects.toThrow(
+      "The simulated clock cannot go back in time",
+    );
+  });
+});
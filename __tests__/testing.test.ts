@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from "vitest";
+import crypto from "crypto";
+import { webhooksResource } from "../resources/webhooks";
+import {
+  buildCheckoutCompletedEvent,
+  buildDisputeEvent,
+  buildRefundEvent,
+  buildSubscriptionEvent,
+  buildWebhookEvent,
+  signWebhookPayload,
+} from "../testing";
+
+const SECRET = "whsec_test_secret_123";
+
+describe("signWebhookPayload", () => {
+  it("produces the HMAC SHA256 hex signature Creem sends", async () => {
+    const payload = '{"id":"evt_1"}';
+    const expected = crypto.createHmac("sha256", SECRET).update(payload).digest("hex");
+
+    expect(await signWebhookPayload(payload, SECRET)).toBe(expected);
+    expect(await signWebhookPayload({ id: "evt_1" }, SECRET)).toBe(expected);
+  });
+});
+
+describe("event builders", () => {
+  it("builds checkout.completed events accepted by handleEvents", async () => {
+    const webhooks = webhooksResource(SECRET);
+    const onCheckoutCompleted = vi.fn();
+    const payload = JSON.stringify(
+      buildCheckoutCompletedEvent({ metadata: { reference_id: "user_123" }, units: 2 }),
+    );
+
+    await webhooks.handleEvents(payload, await signWebhookPayload(payload, SECRET), {
+      onCheckoutCompleted,
+    });
+
+    const data = onCheckoutCompleted.mock.calls[0][0];
+    expect(data.webhookEventType).toBe("checkout.completed");
+    expect(data.units).toBe(2);
+    expect(data.metadata).toEqual({ referenceId: "user_123" });
+    expect(data.customer.email).toBe("customer@example.com");
+    expect(data.order.amountPaid).toBe(2900);
+    expect(data.subscription.product).toBe(data.product.id);
+  });
+
+  it("builds subscription events with a matching status", async () => {
+    const webhooks = webhooksResource(SECRET);
+    const event = buildSubscriptionEvent("subscription.paused", {
+      product: { name: "Team Plan" },
+    });
+    const payload = JSON.stringify(event);
+
+    const constructed = await webhooks.constructEvent(
+      payload,
+      await signWebhookPayload(payload, SECRET),
+    );
+
+    expect(constructed.webhookEventType).toBe("subscription.paused");
+    if (constructed.webhookEventType === "subscription.paused") {
+      expect(constructed.status).toBe("paused");
+      expect(constructed.product.name).toBe("Team Plan");
+      expect(constructed.product.price).toBe(2900);
+      expect(constructed.currentPeriodEndDate).toBeInstanceOf(Date);
+    }
+  });
+
+  it("builds refund and dispute events", async () => {
+    const webhooks = webhooksResource(SECRET);
+    const onRefundCreated = vi.fn();
+    const onDisputeCreated = vi.fn();
+
+    for (const event of [buildRefundEvent({ reason: "duplicate" }), buildDisputeEvent()]) {
+      const payload = JSON.stringify(event);
+      await webhooks.handleEvents(payload, await signWebhookPayload(payload, SECRET), {
+        onRefundCreated,
+        onDisputeCreated,
+      });
+    }
+
+    expect(onRefundCreated.mock.calls[0][0]).toMatchObject({
+      reason: "duplicate",
+      refundAmount: 2900,
+      transaction: { status: "refunded", order: "ord_test_order" },
+      customer: { email: "customer@example.com" },
+    });
+    expect(onDisputeCreated.mock.calls[0][0]).toMatchObject({
+      amount: 2900,
+      transaction: { id: "tran_test_transaction", status: "paid" },
+    });
+  });
+
+  it("uses snake_case fields and applies envelope overrides", () => {
+    const event = buildSubscriptionEvent(
+      "subscription.canceled",
+      {},
+      {
+        id: "evt_fixed",
+        created_at: Date.UTC(2026, 0, 1),
+      },
+    );
+
+    expect(event.id).toBe("evt_fixed");
+    expect(event.created_at).toBe(Date.UTC(2026, 0, 1));
+    expect(event.object).toMatchObject({
+      status: "canceled",
+      canceled_at: "2026-01-01T00:00:00.000Z",
+      current_period_start_date: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("generates a unique event id per event", () => {
+    const a = buildWebhookEvent("refund.created", { object: "refund", id: "ref_1" });
+    const b = buildWebhookEvent("refund.created", { object: "refund", id: "ref_1" });
+
+    expect(a.id).toMatch(/^evt_[0-9a-f]{24}$/);
+    expect(a.id).not.toBe(b.id);
+  });
+});
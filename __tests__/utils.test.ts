@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { toCamelCase } from "../utils";
+import { toCamelCase, generateIdempotencyKey } from "../utils";
 
 describe("toCamelCase", () => {
   it("converts snake_case keys to camelCase", () => {
@@ -120,3 +120,13 @@ describe("toCamelCase", () => {
     expect(result.customFields[0].text.value).toBe("test");
   });
 });
+
+describe("generateIdempotencyKey", () => {
+  it("returns unique UUID v4 strings", () => {
+    const a = generateIdempotencyKey();
+    const b = generateIdempotencyKey();
+
+    expect(a).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(a).not.toBe(b);
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, it, expect, vi } from "vitest";
 import crypto from "crypto";
-import { webhooksResource } from "../resources/webhooks";
+import { isKnownWebhookEvent, webhooksResource } from "../resources/webhooks";
+import {
+  WebhookHandlerError,
+  WebhookPayloadError,
+  WebhookSignatureError,
+  WebhookTimestampError,
+} from "../errors";
+import { createMemoryIdempotencyStore } from "../idempotency";
 
 const TEST_SECRET = "whsec_test_secret_123";
 
@@ -220,6 +227,92 @@ describe("webhooks", () => {
     });
   });
 
+  describe("access policy", () => {
+    async function handle(eventType: string, objectType: string, webhooks = policyWebhooks()) {
+      const onGrantAccess = vi.fn();
+      const onRevokeAccess = vi.fn();
+      const onRevokeAccessForPurchase = vi.fn();
+      const payload = JSON.stringify(makeEvent(eventType, objectType));
+      await webhooks.handleEvents(payload, sign(payload, TEST_SECRET), {
+        onGrantAccess,
+        onRevokeAccess,
+        onRevokeAccessForPurchase,
+      });
+      return { onGrantAccess, onRevokeAccess, onRevokeAccessForPurchase };
+    }
+
+    function policyWebhooks() {
+      return webhooksResource(TEST_SECRET, {
+        accessPolicy: {
+          "subscription.unpaid": "revoke",
+          "subscription.past_due": "grant",
+          "subscription.paused": "none",
+          "refund.created": "revoke",
+        },
+      });
+    }
+
+    it("leaves unpaid, past due, canceled and refunds alone by default", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      for (const [eventType, objectType] of [
+        ["subscription.unpaid", "subscription"],
+        ["subscription.past_due", "subscription"],
+        ["subscription.canceled", "subscription"],
+        ["refund.created", "refund"],
+        ["dispute.created", "dispute"],
+      ]) {
+        const { onGrantAccess, onRevokeAccess, onRevokeAccessForPurchase } = await handle(
+          eventType,
+          objectType,
+          webhooks,
+        );
+        expect(onGrantAccess).not.toHaveBeenCalled();
+        expect(onRevokeAccess).not.toHaveBeenCalled();
+        expect(onRevokeAccessForPurchase).not.toHaveBeenCalled();
+      }
+    });
+
+    it("revokes access for events mapped to revoke", async () => {
+      const { onRevokeAccess } = await handle("subscription.unpaid", "subscription");
+      expect(onRevokeAccess).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "subscription_unpaid", id: "obj_123" }),
+      );
+    });
+
+    it("grants access for events mapped to grant", async () => {
+      const { onGrantAccess } = await handle("subscription.past_due", "subscription");
+      expect(onGrantAccess).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "subscription_past_due" }),
+      );
+    });
+
+    it("revokes access on refunds through onRevokeAccessForPurchase", async () => {
+      const { onRevokeAccess, onRevokeAccessForPurchase } = await handle(
+        "refund.created",
+        "refund",
+      );
+      expect(onRevokeAccess).not.toHaveBeenCalled();
+      expect(onRevokeAccessForPurchase).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: "refund_created",
+          refund: expect.objectContaining({ object: "refund", id: "obj_123" }),
+        }),
+      );
+    });
+
+    it("disables a default mapping with none", async () => {
+      const { onRevokeAccess } = await handle("subscription.paused", "subscription");
+      expect(onRevokeAccess).not.toHaveBeenCalled();
+    });
+
+    it("keeps the defaults the policy does not override", async () => {
+      const { onGrantAccess } = await handle("subscription.active", "subscription");
+      const { onRevokeAccess } = await handle("subscription.expired", "subscription");
+      expect(onGrantAccess).toHaveBeenCalledTimes(1);
+      expect(onRevokeAccess).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("snake_case to camelCase normalization", () => {
     it("normalizes object keys to camelCase", async () => {
       const webhooks = webhooksResource(TEST_SECRET);
@@ -244,6 +337,29 @@ describe("webhooks", () => {
       expect(data.checkoutUrl).toBe("https://example.com");
       expect(data.successUrl).toBe("https://done.com");
     });
+
+    it("hydrates entity timestamps unless disabled", async () => {
+      const payload = JSON.stringify(
+        makeEvent("subscription.paid", "subscription", {
+          current_period_end_date: "2026-02-01T00:00:00.000Z",
+        }),
+      );
+      const signature = sign(payload, TEST_SECRET);
+      const hydrated = vi.fn();
+      const raw = vi.fn();
+
+      await webhooksResource(TEST_SECRET).handleEvents(payload, signature, {
+        onSubscriptionPaid: hydrated,
+      });
+      await webhooksResource(TEST_SECRET, { hydrateDates: false }).handleEvents(
+        payload,
+        signature,
+        { onSubscriptionPaid: raw },
+      );
+
+      expect(hydrated.mock.calls[0][0].currentPeriodEndDate).toBeInstanceOf(Date);
+      expect(raw.mock.calls[0][0].currentPeriodEndDate).toBe("2026-02-01T00:00:00.000Z");
+    });
   });
 
   describe("unknown events", () => {
@@ -273,5 +389,461 @@ describe("webhooks", () => {
       await webhooks.handleEvents(buffer, signature, { onCheckoutCompleted: handler });
       expect(handler).toHaveBeenCalledOnce();
     });
+
+    it("accepts Uint8Array and ArrayBuffer payloads", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const handler = vi.fn();
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+      const bytes = new TextEncoder().encode(payload);
+      const signature = sign(payload, TEST_SECRET);
+
+      await webhooks.handleEvents(bytes, signature, { onCheckoutCompleted: handler });
+      await webhooks.handleEvents(bytes.buffer, signature, { onCheckoutCompleted: handler });
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("timestamp tolerance", () => {
+    // makeEvent uses created_at 1700000000 (seconds)
+    const createdAtMs = 1700000000 * 1000;
+
+    it("accepts events within the tolerance window", async () => {
+      const webhooks = webhooksResource(TEST_SECRET, {
+        toleranceSeconds: 300,
+        clock: () => createdAtMs + 299_000,
+      });
+      const handler = vi.fn();
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+
+      await webhooks.handleEvents(payload, sign(payload, TEST_SECRET), {
+        onCheckoutCompleted: handler,
+      });
+      expect(handler).toHaveBeenCalledOnce();
+    });
+
+    it("rejects replayed events older than the tolerance", async () => {
+      const webhooks = webhooksResource(TEST_SECRET, {
+        toleranceSeconds: 300,
+        clock: () => createdAtMs + 301_000,
+      });
+      const handler = vi.fn();
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+
+      const error = await webhooks
+        .handleEvents(payload, sign(payload, TEST_SECRET), { onCheckoutCompleted: handler })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebhookTimestampError);
+      expect(error.message).toBe("Webhook event is too old: created 301s ago, tolerance is 300s");
+      expect(error.createdAt.getTime()).toBe(createdAtMs);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("rejects events too far in the future", async () => {
+      const webhooks = webhooksResource(TEST_SECRET, {
+        toleranceSeconds: 60,
+        clock: () => createdAtMs - 120_000,
+      });
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+
+      await expect(webhooks.handleEvents(payload, sign(payload, TEST_SECRET), {})).rejects.toThrow(
+        "Webhook event is too far in the future: created 120s ahead, tolerance is 60s",
+      );
+    });
+
+    it("accepts created_at in milliseconds", async () => {
+      const webhooks = webhooksResource(TEST_SECRET, {
+        toleranceSeconds: 300,
+        clock: () => createdAtMs + 1000,
+      });
+      const payload = JSON.stringify({
+        ...makeEvent("checkout.completed", "checkout"),
+        created_at: createdAtMs,
+      });
+
+      await expect(
+        webhooks.handleEvents(payload, sign(payload, TEST_SECRET), {}),
+      ).resolves.not.toThrow();
+    });
+
+    it("verifies the signature before checking the timestamp", async () => {
+      const webhooks = webhooksResource(TEST_SECRET, { toleranceSeconds: 300 });
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+
+      await expect(webhooks.handleEvents(payload, "bad_sig", {})).rejects.toThrow(
+        "Invalid webhook signature",
+      );
+    });
+  });
+
+  describe("idempotency store", () => {
+    it("skips events that were already processed", async () => {
+      const webhooks = webhooksResource(TEST_SECRET, {
+        idempotencyStore: createMemoryIdempotencyStore(),
+      });
+      const onCheckoutCompleted = vi.fn();
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+      const signature = sign(payload, TEST_SECRET);
+
+      const first = await webhooks.handleEvents(payload, signature, { onCheckoutCompleted });
+      const second = await webhooks.handleEvents(payload, signature, { onCheckoutCompleted });
+
+      expect(onCheckoutCompleted).toHaveBeenCalledOnce();
+      expect(first.duplicate).toBe(false);
+      expect(second).toMatchObject({ eventId: "evt_123", duplicate: true });
+    });
+
+    it("releases the event when a handler fails so a redelivery is processed", async () => {
+      const store = createMemoryIdempotencyStore();
+      const webhooks = webhooksResource(TEST_SECRET, { idempotencyStore: store });
+      const onCheckoutCompleted = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("db down"))
+        .mockResolvedValueOnce(undefined);
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+      const signature = sign(payload, TEST_SECRET);
+
+      await expect(
+        webhooks.handleEvents(payload, signature, { onCheckoutCompleted }),
+      ).rejects.toThrow("db down");
+      await webhooks.handleEvents(payload, signature, { onCheckoutCompleted });
+
+      expect(onCheckoutCompleted).toHaveBeenCalledTimes(2);
+      expect(store.has("evt_123")).toBe(true);
+    });
+
+    it("rejects a concurrent delivery of an event that is still processing", async () => {
+      const store = createMemoryIdempotencyStore();
+      store.markProcessing("evt_123");
+      const webhooks = webhooksResource(TEST_SECRET, { idempotencyStore: store });
+      const onCheckoutCompleted = vi.fn();
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+
+      await expect(
+        webhooks.handleEvents(payload, sign(payload, TEST_SECRET), { onCheckoutCompleted }),
+      ).rejects.toThrow("Webhook event evt_123 is already being processed");
+      expect(onCheckoutCompleted).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("event listeners", () => {
+    const deliver = (
+      webhooks: ReturnType<typeof webhooksResource>,
+      eventType: string,
+      objectType = "subscription",
+    ) => {
+      const payload = JSON.stringify(makeEvent(eventType, objectType, { status: "active" }));
+      return webhooks.handleEvents(payload, sign(payload, TEST_SECRET));
+    };
+
+    it("calls listeners registered for an event type", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const paid = vi.fn();
+      const active = vi.fn();
+      webhooks.on("subscription.paid", paid);
+      webhooks.on("subscription.active", active);
+
+      await deliver(webhooks, "subscription.paid");
+
+      expect(active).not.toHaveBeenCalled();
+      expect(paid).toHaveBeenCalledWith(
+        expect.objectContaining({
+          webhookEventType: "subscription.paid",
+          webhookId: "evt_123",
+          webhookCreatedAt: 1700000000,
+          id: "obj_123",
+          status: "active",
+        }),
+      );
+    });
+
+    it("matches wildcard patterns by prefix", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const subscriptionEvents = vi.fn();
+      webhooks.on("subscription.*", subscriptionEvents);
+
+      await deliver(webhooks, "subscription.canceled");
+      await deliver(webhooks, "subscription.past_due");
+      await deliver(webhooks, "checkout.completed", "checkout");
+
+      expect(subscriptionEvents.mock.calls.map(([e]) => e.webhookEventType)).toEqual([
+        "subscription.canceled",
+        "subscription.past_due",
+      ]);
+    });
+
+    it("calls onAny listeners for every known event type only", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const any = vi.fn();
+      webhooks.onAny(any);
+
+      await deliver(webhooks, "checkout.completed", "checkout");
+      await deliver(webhooks, "unknown.event", "checkout");
+
+      expect(any).toHaveBeenCalledOnce();
+      expect(any.mock.calls[0][0].webhookEventType).toBe("checkout.completed");
+    });
+
+    it("runs per-call handlers before listeners, in registration order", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const calls: string[] = [];
+      webhooks.onAny(() => void calls.push("any"));
+      webhooks.on("subscription.*", () => void calls.push("wildcard"));
+      webhooks.on("subscription.paid", () => void calls.push("paid"));
+      const payload = JSON.stringify(makeEvent("subscription.paid", "subscription"));
+
+      await webhooks.handleEvents(payload, sign(payload, TEST_SECRET), {
+        onGrantAccess: () => void calls.push("grant"),
+        onSubscriptionPaid: () => void calls.push("handler"),
+      });
+
+      expect(calls).toEqual(["grant", "handler", "any", "wildcard", "paid"]);
+    });
+
+    it("removes listeners with off, offAny and the returned unsubscribe function", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const viaOff = vi.fn();
+      const viaOffAny = vi.fn();
+      const viaUnsubscribe = vi.fn();
+      webhooks.on("subscription.paid", viaOff);
+      webhooks.onAny(viaOffAny);
+      const unsubscribe = webhooks.on("subscription.*", viaUnsubscribe);
+
+      webhooks.off("subscription.paid", viaOff);
+      webhooks.offAny(viaOffAny);
+      unsubscribe();
+      await deliver(webhooks, "subscription.paid");
+
+      expect(viaOff).not.toHaveBeenCalled();
+      expect(viaOffAny).not.toHaveBeenCalled();
+      expect(viaUnsubscribe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("unknown events and handler errors", () => {
+    const subscriptionPaid = JSON.stringify(makeEvent("subscription.paid", "subscription"));
+
+    it("passes unknown event types to onUnknownEvent", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const onUnknownEvent = vi.fn();
+      const payload = JSON.stringify(
+        makeEvent("payout.created", "checkout", { payout_amount: 500 }),
+      );
+
+      await webhooks.handleEvents(payload, sign(payload, TEST_SECRET), { onUnknownEvent });
+
+      expect(onUnknownEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          webhookEventType: "payout.created",
+          webhookId: "evt_123",
+          payoutAmount: 500,
+        }),
+      );
+    });
+
+    it("passes unknown event types with unknown entities to onUnknownEvent", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const onUnknownEvent = vi.fn();
+      const payload = JSON.stringify(makeEvent("payout.created", "payout"));
+
+      await webhooks.handleEvents(payload, sign(payload, TEST_SECRET), { onUnknownEvent });
+
+      expect(onUnknownEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ webhookEventType: "payout.created", object: "payout" }),
+      );
+    });
+
+    it("still rejects known event types with unknown entities", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const payload = JSON.stringify(makeEvent("subscription.paid", "payout"));
+
+      const error = await webhooks
+        .handleEvents(payload, sign(payload, TEST_SECRET))
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(WebhookPayloadError);
+      expect(error.message).toBe("Invalid webhook event structure");
+    });
+
+    it("stops at the first failing handler in fail-fast mode", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const onSubscriptionPaid = vi.fn();
+      const onHandlerError = vi.fn();
+      const failure = new Error("grant failed");
+
+      const error = await webhooks
+        .handleEvents(subscriptionPaid, sign(subscriptionPaid, TEST_SECRET), {
+          onGrantAccess: () => Promise.reject(failure),
+          onSubscriptionPaid,
+          onHandlerError,
+        })
+        .catch((e) => e);
+
+      expect(onSubscriptionPaid).not.toHaveBeenCalled();
+      expect(onHandlerError).toHaveBeenCalledWith(failure, {
+        handler: "onGrantAccess",
+        eventType: "subscription.paid",
+        eventId: "evt_123",
+      });
+      expect(error).toBeInstanceOf(WebhookHandlerError);
+      expect(error.failures).toEqual([{ handler: "onGrantAccess", error: failure }]);
+      expect(error.message).toBe(
+        "Webhook handler failed for subscription.paid (evt_123): onGrantAccess: grant failed",
+      );
+    });
+
+    it("runs every handler in run-all mode and aggregates the failures", async () => {
+      const webhooks = webhooksResource(TEST_SECRET, { handlerErrorMode: "run-all" });
+      const onSubscriptionPaid = vi.fn();
+      const onHandlerError = vi.fn();
+      webhooks.on("subscription.*", () => {
+        throw new Error("listener failed");
+      });
+
+      const error = await webhooks
+        .handleEvents(subscriptionPaid, sign(subscriptionPaid, TEST_SECRET), {
+          onGrantAccess: () => Promise.reject(new Error("grant failed")),
+          onSubscriptionPaid,
+          onHandlerError,
+        })
+        .catch((e) => e);
+
+      expect(onSubscriptionPaid).toHaveBeenCalledOnce();
+      expect(onHandlerError).toHaveBeenCalledTimes(2);
+      expect(error).toBeInstanceOf(WebhookHandlerError);
+      expect(error.failures.map((f: { handler: string }) => f.handler)).toEqual([
+        "onGrantAccess",
+        'on("subscription.*")',
+      ]);
+      expect(error.message).toBe(
+        '2 webhook handlers failed for subscription.paid (evt_123): onGrantAccess: grant failed; on("subscription.*"): listener failed',
+      );
+    });
+
+    it("records an error thrown by onHandlerError and keeps running the handlers", async () => {
+      const webhooks = webhooksResource(TEST_SECRET, { handlerErrorMode: "run-all" });
+      const onSubscriptionPaid = vi.fn();
+      const grantFailure = new Error("grant failed");
+      const reportFailure = new Error("error tracker unavailable");
+
+      const error = await webhooks
+        .handleEvents(subscriptionPaid, sign(subscriptionPaid, TEST_SECRET), {
+          onGrantAccess: () => Promise.reject(grantFailure),
+          onSubscriptionPaid,
+          onHandlerError: () => Promise.reject(reportFailure),
+        })
+        .catch((e) => e);
+
+      expect(onSubscriptionPaid).toHaveBeenCalledOnce();
+      expect(error).toBeInstanceOf(WebhookHandlerError);
+      expect(error.failures).toEqual([
+        { handler: "onGrantAccess", error: grantFailure },
+        { handler: "onHandlerError", error: reportFailure },
+      ]);
+    });
+  });
+
+  describe("secret rotation", () => {
+    const OLD_SECRET = "whsec_old";
+    const NEW_SECRET = "whsec_new";
+
+    it("accepts signatures from any configured secret and reports which matched", async () => {
+      const webhooks = webhooksResource([OLD_SECRET, NEW_SECRET]);
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+
+      await expect(webhooks.handleEvents(payload, sign(payload, OLD_SECRET))).resolves.toEqual({
+        eventId: "evt_123",
+        eventType: "checkout.completed",
+        secretIndex: 0,
+        duplicate: false,
+      });
+      await expect(
+        webhooks.handleEvents(payload, sign(payload, NEW_SECRET)),
+      ).resolves.toMatchObject({ secretIndex: 1 });
+    });
+
+    it("rejects signatures that match none of the secrets", async () => {
+      const webhooks = webhooksResource([OLD_SECRET, NEW_SECRET]);
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+
+      await expect(webhooks.handleEvents(payload, sign(payload, TEST_SECRET))).rejects.toThrow(
+        "Invalid webhook signature",
+      );
+    });
+
+    it("treats an empty array as a missing secret", async () => {
+      const webhooks = webhooksResource([]);
+      const payload = JSON.stringify(makeEvent("checkout.completed", "checkout"));
+
+      await expect(webhooks.handleEvents(payload, sign(payload, TEST_SECRET))).rejects.toThrow(
+        "Webhook secret not configured",
+      );
+    });
+  });
+
+  describe("verify and constructEvent", () => {
+    const payload = JSON.stringify(
+      makeEvent("subscription.paid", "subscription", {
+        status: "active",
+        current_period_end_date: "2026-02-01T00:00:00.000Z",
+      }),
+    );
+
+    it("verify reports whether the signature matches", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+
+      await expect(webhooks.verify(payload, sign(payload, TEST_SECRET))).resolves.toBe(true);
+      await expect(webhooks.verify(payload, "bad_sig")).resolves.toBe(false);
+    });
+
+    it("constructEvent returns the typed, camelCased event without running listeners", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const listener = vi.fn();
+      webhooks.onAny(listener);
+
+      const event = await webhooks.constructEvent(payload, sign(payload, TEST_SECRET));
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(event.webhookEventType).toBe("subscription.paid");
+      expect(event.webhookId).toBe("evt_123");
+      expect(isKnownWebhookEvent(event)).toBe(true);
+      if (isKnownWebhookEvent(event) && event.webhookEventType === "subscription.paid") {
+        expect(event.status).toBe("active");
+        expect(event.currentPeriodEndDate).toEqual(new Date("2026-02-01T00:00:00.000Z"));
+      }
+    });
+
+    it("constructEvent returns event types the SDK does not know as unknown events", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+      const unknown = JSON.stringify(makeEvent("order.created", "order", { amount: 500 }));
+
+      const event = await webhooks.constructEvent(unknown, sign(unknown, TEST_SECRET));
+
+      expect(isKnownWebhookEvent(event)).toBe(false);
+      expect(event).toMatchObject({
+        webhookEventType: "order.created",
+        webhookId: "evt_123",
+        amount: 500,
+      });
+    });
+
+    it("constructEvent rejects invalid signatures with WebhookSignatureError", async () => {
+      const webhooks = webhooksResource(TEST_SECRET);
+
+      const error = await webhooks.constructEvent(payload, "bad_sig").catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebhookSignatureError);
+      expect(error.message).toBe("Invalid webhook signature");
+    });
+
+    it("constructEvent applies the timestamp tolerance", async () => {
+      const webhooks = webhooksResource(TEST_SECRET, {
+        toleranceSeconds: 300,
+        clock: () => Date.UTC(2030, 0, 1),
+      });
+
+      await expect(
+        webhooks.constructEvent(payload, sign(payload, TEST_SECRET)),
+      ).rejects.toBeInstanceOf(WebhookTimestampError);
+    });
   });
 });
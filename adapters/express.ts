@@ -0,0 +1,70 @@
+import type { IncomingMessage } from "http";
+import {
+  CreemWebhooks,
+  SIGNATURE_HEADER,
+  WebhookAdapterHandlers,
+  handleWebhookRequest,
+  headerValue,
+} from "./shared";
+import { readBody } from "./node";
+
+/**
+ * The parts of an Express request used by the adapter
+ */
+export interface ExpressRequest extends IncomingMessage {
+  body?: unknown;
+}
+
+/**
+ * The parts of an Express response used by the adapter
+ */
+export interface ExpressResponse {
+  status(code: number): ExpressResponse;
+  send(body: string): unknown;
+}
+
+/**
+ * Create an Express route handler for a Creem webhook endpoint.
+ * Works with `express.raw({ type: "application/json" })` or without any body parser;
+ * a body already parsed by `express.json()` cannot be verified.
+ *
+ * @example
+ * import { createWebhookHandler } from "creem_io/express";
+ *
+ * app.post(
+ *   "/api/webhook/creem",
+ *   express.raw({ type: "application/json" }),
+ *   createWebhookHandler(creem.webhooks, { onGrantAccess: async (context) => { ... } }),
+ * );
+ */
+export function createWebhookHandler(
+  webhooks: CreemWebhooks,
+  handlers: WebhookAdapterHandlers = {},
+): (req: ExpressRequest, res: ExpressResponse) => Promise<void> {
+  return async (req, res) => {
+    const { body } = req;
+    let payload: string | Uint8Array;
+
+    if (typeof body === "string" || body instanceof Uint8Array) {
+      payload = body;
+    } else if (!req.readableEnded) {
+      payload = await readBody(req);
+    } else {
+      // The stream was consumed by a body parser that did not keep the raw bytes
+      console.error(
+        "[creem_io] Webhook body was already parsed. Mount express.raw({ type: 'application/json' }) on the webhook route.",
+      );
+      res.status(500).send("Webhook handler failed");
+      return;
+    }
+
+    const signature = headerValue(req.headers[SIGNATURE_HEADER]);
+    const { status, body: text } = await handleWebhookRequest(
+      webhooks,
+      payload,
+      signature,
+      handlers,
+    );
+    res.status(status).send(text);
+  };
+}
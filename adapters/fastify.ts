@@ -0,0 +1,61 @@
+import {
+  CreemWebhooks,
+  SIGNATURE_HEADER,
+  WebhookAdapterHandlers,
+  handleWebhookRequest,
+  headerValue,
+} from "./shared";
+
+/**
+ * The parts of a Fastify request used by the adapter
+ */
+export interface FastifyRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  /** Set by plugins such as `fastify-raw-body` */
+  rawBody?: string | Uint8Array;
+}
+
+/**
+ * The parts of a Fastify reply used by the adapter
+ */
+export interface FastifyReply {
+  code(status: number): FastifyReply;
+  type(contentType: string): FastifyReply;
+  send(payload: string): unknown;
+}
+
+/**
+ * Create a Fastify route handler for a Creem webhook endpoint.
+ * Fastify parses JSON bodies by default, so register a buffer content type parser in the
+ * webhook route's scope, or use `fastify-raw-body`.
+ *
+ * @example
+ * import { createWebhookHandler } from "creem_io/fastify";
+ *
+ * app.register(async (scope) => {
+ *   scope.addContentTypeParser("application/json", { parseAs: "buffer" }, (_req, body, done) =>
+ *     done(null, body),
+ *   );
+ *   scope.post("/api/webhook/creem", createWebhookHandler(creem.webhooks, { ... }));
+ * });
+ */
+export function createWebhookHandler(
+  webhooks: CreemWebhooks,
+  handlers: WebhookAdapterHandlers = {},
+): (request: FastifyRequest, reply: FastifyReply) => Promise<unknown> {
+  return async (request, reply) => {
+    const payload = request.rawBody ?? request.body;
+
+    if (typeof payload !== "string" && !(payload instanceof Uint8Array)) {
+      console.error(
+        "[creem_io] Webhook body was parsed as JSON. Register a buffer content type parser for the webhook route.",
+      );
+      return reply.code(500).type("text/plain").send("Webhook handler failed");
+    }
+
+    const signature = headerValue(request.headers[SIGNATURE_HEADER]);
+    const { status, body } = await handleWebhookRequest(webhooks, payload, signature, handlers);
+    return reply.code(status).type("text/plain").send(body);
+  };
+}
@@ -0,0 +1,24 @@
+import {
+  CreemWebhooks,
+  SIGNATURE_HEADER,
+  WebhookAdapterHandlers,
+  handleWebhookRequest,
+} from "./shared";
+
+/**
+ * Handle a Web `Request`, shared by the Next.js and Hono adapters
+ */
+export async function handleFetchRequest(
+  webhooks: CreemWebhooks,
+  request: Request,
+  handlers: WebhookAdapterHandlers,
+): Promise<Response> {
+  const payload = await request.arrayBuffer();
+  const signature = request.headers.get(SIGNATURE_HEADER);
+  const { status, body } = await handleWebhookRequest(webhooks, payload, signature, handlers);
+
+  return new Response(body, {
+    status,
+    headers: { "Content-Type": "text/plain; charset=utf-8" },
+  });
+}
@@ -0,0 +1,26 @@
+import { CreemWebhooks, WebhookAdapterHandlers } from "./shared";
+import { handleFetchRequest } from "./fetch";
+
+/**
+ * The parts of a Hono context used by the adapter
+ */
+export interface HonoContext {
+  req: { raw: Request };
+}
+
+/**
+ * Create a Hono handler for a Creem webhook endpoint
+ *
+ * @example
+ * import { createWebhookHandler } from "creem_io/hono";
+ *
+ * app.post("/api/webhook/creem", createWebhookHandler(creem.webhooks, {
+ *   onGrantAccess: async (context) => { ... },
+ * }));
+ */
+export function createWebhookHandler(
+  webhooks: CreemWebhooks,
+  handlers: WebhookAdapterHandlers = {},
+): (c: HonoContext) => Promise<Response> {
+  return (c) => handleFetchRequest(webhooks, c.req.raw, handlers);
+}
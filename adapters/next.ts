@@ -0,0 +1,21 @@
+import { CreemWebhooks, WebhookAdapterHandlers } from "./shared";
+import { handleFetchRequest } from "./fetch";
+
+/**
+ * Create a Next.js App Router route handler for a Creem webhook endpoint.
+ * Runs on both the Node.js and Edge runtimes.
+ *
+ * @example
+ * // app/api/webhook/creem/route.ts
+ * import { createWebhookHandler } from "creem_io/next";
+ *
+ * export const POST = createWebhookHandler(creem.webhooks, {
+ *   onGrantAccess: async (context) => { ... },
+ * });
+ */
+export function createWebhookHandler(
+  webhooks: CreemWebhooks,
+  handlers: WebhookAdapterHandlers = {},
+): (request: Request) => Promise<Response> {
+  return (request) => handleFetchRequest(webhooks, request, handlers);
+}
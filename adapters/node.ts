@@ -0,0 +1,50 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import {
+  CreemWebhooks,
+  SIGNATURE_HEADER,
+  WebhookAdapterHandlers,
+  WebhookResponse,
+  handleWebhookRequest,
+  headerValue,
+} from "./shared";
+
+/**
+ * Create a `node:http` request listener for a Creem webhook endpoint.
+ * Reads the raw body and the "creem-signature" header, and responds with
+ * 200, 400 (bad signature) or 500 (handler failure).
+ *
+ * @example
+ * import http from "node:http";
+ * import { createWebhookHandler } from "creem_io/node";
+ *
+ * http.createServer(createWebhookHandler(creem.webhooks, {
+ *   onGrantAccess: async ({ customer }) => { ... },
+ * })).listen(3000);
+ */
+export function createWebhookHandler(
+  webhooks: CreemWebhooks,
+  handlers: WebhookAdapterHandlers = {},
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    const payload = await readBody(req);
+    const signature = headerValue(req.headers[SIGNATURE_HEADER]);
+    send(res, await handleWebhookRequest(webhooks, payload, signature, handlers));
+  };
+}
+
+/**
+ * Read the full request body from the stream
+ */
+export async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function send(res: ServerResponse, { status, body }: WebhookResponse): void {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  res.end(body);
+}
@@ -0,0 +1,64 @@
+import type { webhooksResource } from "../resources/webhooks";
+import { WebhookOptions } from "../types/webhooks";
+import { WebhookPayload } from "../signature";
+
+/**
+ * The `creem.webhooks` resource, or anything with its `handleEvents` method
+ */
+export type CreemWebhooks = Pick<ReturnType<typeof webhooksResource>, "handleEvents">;
+
+/**
+ * Handlers passed to `handleEvents` for every request
+ */
+export type WebhookAdapterHandlers = Omit<WebhookOptions, "webhookSecret">;
+
+/**
+ * Status code and plain text body to respond with
+ */
+export interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+/** Request header carrying the webhook signature */
+export const SIGNATURE_HEADER = "creem-signature";
+
+/**
+ * Errors caused by the request rather than the handlers. Matched by name because each
+ * subpath bundle has its own copy of the error classes, so `instanceof` is unreliable.
+ */
+const CLIENT_ERRORS = ["WebhookSignatureError", "WebhookPayloadError", "WebhookTimestampError"];
+
+/**
+ * Run `handleEvents` and map the outcome to an HTTP response:
+ * 200 when handled, 400 for a missing or invalid signature, a malformed payload or a stale event,
+ * and 500 when a handler fails so Creem redelivers the event.
+ */
+export async function handleWebhookRequest(
+  webhooks: CreemWebhooks,
+  payload: WebhookPayload,
+  signature: string | null | undefined,
+  handlers: WebhookAdapterHandlers = {},
+): Promise<WebhookResponse> {
+  if (!signature) {
+    return { status: 400, body: `Missing ${SIGNATURE_HEADER} header` };
+  }
+
+  try {
+    await webhooks.handleEvents(payload, signature, handlers);
+    return { status: 200, body: "OK" };
+  } catch (error) {
+    if (error instanceof Error && CLIENT_ERRORS.includes(error.name)) {
+      return { status: 400, body: error.message };
+    }
+    console.error("[creem_io] Webhook handling failed", error);
+    return { status: 500, body: "Webhook handler failed" };
+  }
+}
+
+/**
+ * First value of a Node-style header, which may be repeated
+ */
+export function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,46 @@
+/**
+ * Command-line arguments: positionals, and `--flag value`, `--flag=value` or boolean `--flag` options
+ */
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | true>;
+}
+
+/**
+ * Parse command-line arguments. Flags listed in `booleanFlags` never take a value;
+ * other flags take the next argument. Everything after `--` is positional.
+ */
+export function parseArgs(argv: string[], booleanFlags: readonly string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inline] = splitOnce(arg.slice(2), "=");
+    if (inline !== undefined) {
+      flags[name] = inline;
+    } else if (booleanFlags.includes(name)) {
+      flags[name] = true;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      flags[name] = argv[++i];
+    } else {
+      throw new Error(`Missing value for --${name}`);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function splitOnce(value: string, separator: string): [string, string | undefined] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value, undefined] : [value.slice(0, index), value.slice(index + 1)];
+}
@@ -0,0 +1,263 @@
+import type { createCreem } from "../index";
+import {
+  CancelSubscriptionRequest,
+  CreateProductRequest,
+  DiscountDuration,
+  DiscountType,
+  StatsInterval,
+  StatsSummary,
+} from "../types";
+import { FetchFn } from "../types/core";
+import { CliConfig } from "./config";
+import { formatDetails, formatTable } from "./output";
+
+type Creem = ReturnType<typeof createCreem>;
+
+export interface CommandContext {
+  /** API client, created on first use. Throws when no API key is configured */
+  creem: Creem;
+  /** Positional arguments after the command name */
+  args: string[];
+  flags: Record<string, string | true>;
+  config: CliConfig;
+  /** `fetch` used for API calls and webhook deliveries */
+  fetch: FetchFn;
+}
+
+/**
+ * A CLI command. `T` is the result of `run`, passed to `format`
+ */
+export interface Command<T = unknown> {
+  /** Arguments and flags, e.g. "<productId>" */
+  usage: string;
+  description: string;
+  /** Table columns of list results. Other results are shown field by field. */
+  columns?: readonly string[];
+  /** Custom table output */
+  format?(result: T): string;
+  run(context: CommandContext): Promise<T>;
+}
+
+const PRODUCT_COLUMNS = ["id", "name", "price", "currency", "billingPeriod", "status"];
+const CUSTOMER_COLUMNS = ["id", "email", "name", "country", "createdAt"];
+const TRANSACTION_COLUMNS = ["id", "amountPaid", "currency", "type", "status", "customer"];
+
+/**
+ * CLI commands, by name
+ */
+export const COMMANDS: Record<string, Command> = {
+  "products list": {
+    usage: "[--page <n>] [--limit <n>]",
+    description: "List products",
+    columns: PRODUCT_COLUMNS,
+    run: ({ creem, flags }) =>
+      creem.products.list({ page: numberFlag(flags, "page"), limit: numberFlag(flags, "limit") }),
+  },
+  "products get": {
+    usage: "<productId>",
+    description: "Show a product",
+    run: ({ creem, args }) => creem.products.get({ productId: arg(args, 0, "productId") }),
+  },
+  "products create": {
+    usage:
+      "--name <name> --description <text> --price <cents> --currency <code> --billing-type <onetime|recurring> [--billing-period <period>]",
+    description: "Create a product",
+    run: ({ creem, flags }) =>
+      creem.products.create({
+        name: requiredFlag(flags, "name"),
+        description: requiredFlag(flags, "description"),
+        price: numberFlag(flags, "price", true),
+        currency: requiredFlag(flags, "currency"),
+        billingType: requiredFlag(flags, "billing-type") as CreateProductRequest["billingType"],
+        billingPeriod: stringFlag(flags, "billing-period") as CreateProductRequest["billingPeriod"],
+      }),
+  },
+  "customers list": {
+    usage: "[--page <n>] [--limit <n>]",
+    description: "List customers",
+    columns: CUSTOMER_COLUMNS,
+    run: ({ creem, flags }) =>
+      creem.customers.list({ page: numberFlag(flags, "page"), limit: numberFlag(flags, "limit") }),
+  },
+  "customers get": {
+    usage: "<customerId> | --email <email>",
+    description: "Show a customer",
+    run: ({ creem, args, flags }) => {
+      const email = stringFlag(flags, "email");
+      return creem.customers.get(
+        email ? { email } : { customerId: arg(args, 0, "customerId or --email") },
+      );
+    },
+  },
+  "customers portal": {
+    usage: "<customerId>",
+    description: "Create a customer portal link",
+    run: ({ creem, args }) =>
+      creem.customers.createPortal({ customerId: arg(args, 0, "customerId") }),
+  },
+  "subscriptions get": {
+    usage: "<subscriptionId>",
+    description: "Show a subscription",
+    run: ({ creem, args }) =>
+      creem.subscriptions.get({ subscriptionId: arg(args, 0, "subscriptionId") }),
+  },
+  "subscriptions cancel": {
+    usage: "<subscriptionId> [--mode <immediate|scheduled>]",
+    description: "Cancel a subscription",
+    run: ({ creem, args, flags }) =>
+      creem.subscriptions.cancel({
+        subscriptionId: arg(args, 0, "subscriptionId"),
+        mode: stringFlag(flags, "mode") as CancelSubscriptionRequest["mode"],
+      }),
+  },
+  "subscriptions pause": {
+    usage: "<subscriptionId>",
+    description: "Pause a subscription",
+    run: ({ creem, args }) =>
+      creem.subscriptions.pause({ subscriptionId: arg(args, 0, "subscriptionId") }),
+  },
+  "subscriptions resume": {
+    usage: "<subscriptionId>",
+    description: "Resume a paused subscription",
+    run: ({ creem, args }) =>
+      creem.subscriptions.resume({ subscriptionId: arg(args, 0, "subscriptionId") }),
+  },
+  "transactions get": {
+    usage: "<transactionId>",
+    description: "Show a transaction",
+    run: ({ creem, args }) =>
+      creem.transactions.get({ transactionId: arg(args, 0, "transactionId") }),
+  },
+  "transactions list": {
+    usage: "[--customer <id>] [--order <id>] [--product <id>] [--page <n>] [--limit <n>]",
+    description: "List transactions",
+    columns: TRANSACTION_COLUMNS,
+    run: ({ creem, flags }) =>
+      creem.transactions.search({
+        customerId: stringFlag(flags, "customer"),
+        orderId: stringFlag(flags, "order"),
+        productId: stringFlag(flags, "product"),
+        page: numberFlag(flags, "page"),
+        limit: numberFlag(flags, "limit"),
+      }),
+  },
+  "licenses validate": {
+    usage: "<key> --instance-id <id>",
+    description: "Validate a license key",
+    run: ({ creem, args, flags }) =>
+      creem.licenses.validate({
+        key: arg(args, 0, "key"),
+        instanceId: requiredFlag(flags, "instance-id"),
+      }),
+  },
+  "licenses activate": {
+    usage: "<key> --instance-name <name>",
+    description: "Activate a license key",
+    run: ({ creem, args, flags }) =>
+      creem.licenses.activate({
+        key: arg(args, 0, "key"),
+        instanceName: requiredFlag(flags, "instance-name"),
+      }),
+  },
+  "licenses deactivate": {
+    usage: "<key> --instance-id <id>",
+    description: "Deactivate a license key instance",
+    run: ({ creem, args, flags }) =>
+      creem.licenses.deactivate({
+        key: arg(args, 0, "key"),
+        instanceId: requiredFlag(flags, "instance-id"),
+      }),
+  },
+  "discounts get": {
+    usage: "<discountId> | --code <code>",
+    description: "Show a discount",
+    run: ({ creem, args, flags }) => {
+      const discountCode = stringFlag(flags, "code");
+      return creem.discounts.get(
+        discountCode ? { discountCode } : { discountId: arg(args, 0, "discountId or --code") },
+      );
+    },
+  },
+  "discounts create": {
+    usage:
+      "--name <name> --type <percentage|fixed> --duration <once|forever|repeating> --products <id,...> [--code <code>] [--percentage <n>] [--amount <cents> --currency <code>] [--duration-in-months <n>] [--max-redemptions <n>] [--expiry-date <date>]",
+    description: "Create a discount",
+    run: ({ creem, flags }) =>
+      creem.discounts.create({
+        name: requiredFlag(flags, "name"),
+        code: stringFlag(flags, "code"),
+        type: requiredFlag(flags, "type") as DiscountType,
+        percentage: numberFlag(flags, "percentage"),
+        amount: numberFlag(flags, "amount"),
+        currency: stringFlag(flags, "currency"),
+        duration: requiredFlag(flags, "duration") as DiscountDuration,
+        durationInMonths: numberFlag(flags, "duration-in-months"),
+        maxRedemptions: numberFlag(flags, "max-redemptions"),
+        expiryDate: stringFlag(flags, "expiry-date"),
+        appliesToProducts: requiredFlag(flags, "products").split(","),
+      }),
+  },
+  "discounts delete": {
+    usage: "<discountId>",
+    description: "Delete a discount",
+    run: ({ creem, args }) => creem.discounts.delete({ discountId: arg(args, 0, "discountId") }),
+  },
+  "stats summary": {
+    usage: "--currency <code> [--interval <day|week|month>] [--start <date>] [--end <date>]",
+    description: "Show revenue and subscription totals",
+    format: ({ totals, periods }) =>
+      [
+        formatDetails(totals),
+        ...(periods?.length
+          ? [
+              formatTable(
+                periods.map((p) => ({ ...p, timestamp: new Date(p.timestamp) })),
+                ["timestamp", "grossRevenue", "netRevenue"],
+              ),
+            ]
+          : []),
+      ].join("\n\n"),
+    run: ({ creem, flags }) =>
+      creem.stats.getSummary({
+        currency: requiredFlag(flags, "currency"),
+        interval: stringFlag(flags, "interval") as StatsInterval | undefined,
+        startDate: dateFlag(flags, "start"),
+        endDate: dateFlag(flags, "end"),
+      }),
+  } satisfies Command<StatsSummary>,
+};
+
+export function arg(args: string[], index: number, name: string): string {
+  if (args[index] === undefined) throw new Error(`Missing argument: ${name}`);
+  return args[index];
+}
+
+export function stringFlag(flags: CommandContext["flags"], name: string): string | undefined {
+  const value = flags[name];
+  if (value === true) throw new Error(`Missing value for --${name}`);
+  return value;
+}
+
+export function requiredFlag(flags: CommandContext["flags"], name: string): string {
+  const value = stringFlag(flags, name);
+  if (value === undefined) throw new Error(`Missing required flag: --${name}`);
+  return value;
+}
+
+function numberFlag(flags: CommandContext["flags"], name: string, required: true): number;
+function numberFlag(flags: CommandContext["flags"], name: string): number | undefined;
+function numberFlag(flags: CommandContext["flags"], name: string, required = false) {
+  const value = required ? requiredFlag(flags, name) : stringFlag(flags, name);
+  if (value === undefined) return undefined;
+  if (!/^-?\d+(\.\d+)?$/.test(value)) throw new Error(`--${name} must be a number`);
+  return Number(value);
+}
+
+// Unix timestamps in milliseconds, or dates such as 2026-01-31
+function dateFlag(flags: CommandContext["flags"], name: string): number | undefined {
+  const value = stringFlag(flags, name);
+  if (value === undefined) return undefined;
+  const ms = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`--${name} must be a date or a timestamp`);
+  return ms;
+}
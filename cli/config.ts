@@ -0,0 +1,67 @@
+import { homedir } from "os";
+import { join } from "path";
+
+/**
+ * Settings of a profile in the config file
+ */
+export interface CliProfile {
+  apiKey?: string;
+  /** Use the test API */
+  testMode?: boolean;
+  /** Webhook signing secret, used by `creem webhooks` */
+  webhookSecret?: string;
+}
+
+/**
+ * Contents of the config file, e.g.
+ * `{ "profiles": { "default": { "apiKey": "creem_test_...", "testMode": true } } }`
+ */
+export interface CliConfigFile {
+  profiles?: Record<string, CliProfile>;
+}
+
+/**
+ * Settings resolved from the flags, the environment and the config file
+ */
+export interface CliConfig {
+  apiKey?: string;
+  testMode: boolean;
+  webhookSecret?: string;
+}
+
+/**
+ * Path of the config file: `CREEM_CONFIG`, or `creem/config.json` in the XDG config directory
+ */
+export function configPath(env: Record<string, string | undefined>): string {
+  return (
+    env.CREEM_CONFIG ??
+    join(env.XDG_CONFIG_HOME ?? join(env.HOME ?? homedir(), ".config"), "creem", "config.json")
+  );
+}
+
+/**
+ * Resolve the API settings. The profile named by `--profile` takes precedence over the
+ * environment (`CREEM_API_KEY`, `CREEM_WEBHOOK_SECRET`), which takes precedence over the profile
+ * named by `CREEM_PROFILE` or "default". `--test` always selects the test API.
+ */
+export function resolveConfig(
+  flags: Record<string, string | true>,
+  env: Record<string, string | undefined>,
+  file: CliConfigFile | undefined,
+): CliConfig {
+  const explicit = typeof flags.profile === "string" ? flags.profile : undefined;
+  const name = explicit ?? env.CREEM_PROFILE ?? "default";
+  const profile = file?.profiles?.[name];
+  if ((explicit || env.CREEM_PROFILE) && !profile) {
+    throw new Error(`Profile "${name}" not found in the config file`);
+  }
+
+  const fromEnv = explicit
+    ? {}
+    : { apiKey: env.CREEM_API_KEY, webhookSecret: env.CREEM_WEBHOOK_SECRET };
+  return {
+    apiKey: fromEnv.apiKey ?? profile?.apiKey,
+    testMode: flags.test === true || (!fromEnv.apiKey && !!profile?.testMode),
+    webhookSecret: fromEnv.webhookSecret ?? profile?.webhookSecret,
+  };
+}
@@ -0,0 +1,142 @@
+import { readFile } from "fs/promises";
+import { createCreem } from "../index";
+import { CreemValidationError } from "../errors";
+import { FetchFn } from "../types/core";
+import { parseArgs } from "./args";
+import { Command, COMMANDS } from "./commands";
+import { CliConfigFile, configPath, resolveConfig } from "./config";
+import { formatDetails, formatTable } from "./output";
+import { WEBHOOK_COMMANDS } from "./webhooks";
+
+/**
+ * The environment the CLI runs in. Defaults to the current process.
+ */
+export interface CliIO {
+  env: Record<string, string | undefined>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+  /** `fetch` used for API calls and webhook deliveries. Defaults to the global `fetch` */
+  fetch?: FetchFn;
+}
+
+const BOOLEAN_FLAGS = ["test", "json", "help"] as const;
+
+const ALL_COMMANDS: Record<string, Command> = { ...COMMANDS, ...WEBHOOK_COMMANDS };
+
+const processIO: CliIO = {
+  env: process.env,
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+/**
+ * Run the `creem` command line and return its exit code
+ *
+ * @example
+ * // creem customers get --email jane@example.com --json
+ * process.exitCode = await run(["customers", "get", "--email", "jane@example.com", "--json"]);
+ */
+export async function run(argv: string[], io: CliIO = processIO): Promise<number> {
+  try {
+    const { positionals, flags } = parseArgs(argv, BOOLEAN_FLAGS);
+    const name = positionals.slice(0, 2).join(" ");
+    const command = ALL_COMMANDS[name];
+    if (flags.help || !positionals.length) {
+      io.stdout(usage());
+      return 0;
+    }
+    if (!command) {
+      io.stderr(`Unknown command: ${name}\n\n${usage()}`);
+      return 1;
+    }
+
+    const config = resolveConfig(flags, io.env, await readConfig(configPath(io.env)));
+    let creem: ReturnType<typeof createCreem> | undefined;
+    const result = await command.run({
+      get creem() {
+        if (!config.apiKey) {
+          throw new Error(
+            "No API key: set CREEM_API_KEY or add a profile with an apiKey to the config file",
+          );
+        }
+        return (creem ??= createCreem({
+          apiKey: config.apiKey,
+          testMode: config.testMode,
+          fetch: io.fetch,
+        }));
+      },
+      args: positionals.slice(2),
+      flags,
+      config,
+      fetch: io.fetch ?? ((url, init) => fetch(url, init)),
+    });
+
+    if (flags.json) {
+      io.stdout(JSON.stringify(result ?? null, null, 2));
+    } else if (command.format) {
+      io.stdout(command.format(result));
+    } else if (command.columns && isList(result)) {
+      const { items, pagination } = result;
+      io.stdout(formatTable(items, command.columns));
+      if (pagination) {
+        io.stdout(
+          `\nPage ${pagination.currentPage} of ${pagination.totalPages} (${pagination.totalRecords} total)`,
+        );
+      }
+    } else if (result && typeof result === "object" && Object.keys(result).length) {
+      io.stdout(formatDetails(result));
+    } else {
+      io.stdout("Done");
+    }
+    return 0;
+  } catch (error) {
+    io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    if (error instanceof CreemValidationError) {
+      for (const detail of error.details) io.stderr(`  - ${detail.message}`);
+    }
+    return 1;
+  }
+}
+
+function usage(): string {
+  const commands = Object.entries(ALL_COMMANDS).map(
+    ([name, { usage, description }]) => `  creem ${name} ${usage}\n      ${description}`,
+  );
+  return [
+    "Usage: creem <resource> <action> [arguments] [options]",
+    "",
+    "Commands:",
+    ...commands,
+    "",
+    "Options:",
+    "  --json               Print the raw JSON response",
+    "  --test               Use the test API",
+    "  --profile <name>     Use a profile from the config file",
+    "  --help               Show this help",
+    "",
+    "The API key is read from CREEM_API_KEY or from a profile in the config file",
+    "(CREEM_CONFIG, or ~/.config/creem/config.json).",
+  ].join("\n");
+}
+
+async function readConfig(path: string): Promise<CliConfigFile | undefined> {
+  const text = await readFile(path, "utf8").catch((error) => {
+    if (error.code === "ENOENT") return undefined;
+    throw error;
+  });
+  if (text === undefined) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid config file ${path}: ${(error as Error).message}`);
+  }
+}
+
+function isList(result: unknown): result is {
+  items: object[];
+  pagination?: { currentPage: number; totalPages: number; totalRecords: number };
+} {
+  return (
+    !!result && typeof result === "object" && Array.isArray((result as { items?: unknown }).items)
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Render rows as an aligned plain-text table. Columns are field paths, e.g. "product.name".
+ */
+export function formatTable(rows: object[], columns: readonly string[]): string {
+  const cells = rows.map((row) => columns.map((column) => formatValue(pick(row, column))));
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((row) => row[i].length)),
+  );
+  const line = (values: readonly string[]) =>
+    values
+      .map((value, i) => value.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  return [line(columns), line(widths.map((w) => "-".repeat(w))), ...cells.map(line)].join("\n");
+}
+
+/**
+ * Render the fields of an entity as a two-column table
+ */
+export function formatDetails(entity: object): string {
+  const entries = Object.entries(entity).filter(([, value]) => value !== undefined);
+  const width = Math.max(0, ...entries.map(([key]) => key.length));
+  return entries.map(([key, value]) => `${key.padEnd(width)}  ${formatValue(value)}`).join("\n");
+}
+
+/**
+ * Render a value in a table cell: dates as ISO strings, entities by id, other objects as JSON
+ */
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== "object") return String(value);
+  if ("id" in value && typeof value.id === "string") return value.id;
+  return JSON.stringify(value);
+}
+
+function pick(row: object, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+      row,
+    );
+}
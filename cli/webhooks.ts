@@ -0,0 +1,136 @@
+import { readFile } from "fs/promises";
+import { SIGNATURE_HEADER } from "../adapters/shared";
+import {
+  buildCheckoutCompletedEvent,
+  buildDisputeEvent,
+  buildRefundEvent,
+  buildSubscriptionEvent,
+  signWebhookPayload,
+  SubscriptionEventType,
+  WebhookPayloadOverrides,
+} from "../testing/webhooks";
+import { WebhookEventType } from "../types/webhooks";
+import { arg, Command, CommandContext, requiredFlag, stringFlag } from "./commands";
+
+const SUBSCRIPTION_EVENT_TYPES: SubscriptionEventType[] = [
+  "subscription.active",
+  "subscription.trialing",
+  "subscription.paid",
+  "subscription.canceled",
+  "subscription.expired",
+  "subscription.unpaid",
+  "subscription.update",
+  "subscription.past_due",
+  "subscription.paused",
+  "subscription.scheduled_cancel",
+];
+
+const EVENT_BUILDERS: Record<WebhookEventType, (overrides: WebhookPayloadOverrides) => object> = {
+  "checkout.completed": buildCheckoutCompletedEvent,
+  "refund.created": buildRefundEvent,
+  "dispute.created": buildDisputeEvent,
+  ...(Object.fromEntries(
+    SUBSCRIPTION_EVENT_TYPES.map((type) => [
+      type,
+      (overrides: WebhookPayloadOverrides) => buildSubscriptionEvent(type, overrides),
+    ]),
+  ) as Record<SubscriptionEventType, (overrides: WebhookPayloadOverrides) => object>),
+};
+
+const DELIVERY_COLUMNS = ["id", "eventType", "status"];
+
+/**
+ * A webhook sent to the endpoint
+ */
+interface Delivery {
+  id: string;
+  eventType: string;
+  status: number;
+}
+
+/**
+ * Webhook commands, by name
+ */
+export const WEBHOOK_COMMANDS: Record<string, Command> = {
+  "webhooks trigger": {
+    usage: "<eventType> --to <url> [--data <json>] [--secret <secret>]",
+    description:
+      "Send a signed sample event, e.g. subscription.paid. --data overrides payload fields (snake_case)",
+    columns: DELIVERY_COLUMNS,
+    run: async (context) => {
+      const eventType = arg(context.args, 0, "eventType");
+      const build = EVENT_BUILDERS[eventType as WebhookEventType];
+      if (!build) {
+        throw new Error(
+          `Unknown event type: ${eventType}. Expected one of: ${Object.keys(EVENT_BUILDERS).join(", ")}`,
+        );
+      }
+
+      const data = stringFlag(context.flags, "data");
+      const overrides = data === undefined ? {} : parseJson(data, "--data");
+      if (!isJsonObject(overrides)) throw new Error("--data must be a JSON object");
+      return { items: [await deliver(context, JSON.stringify(build(overrides)))] };
+    },
+  },
+  "webhooks replay": {
+    usage: "<file.json> --to <url> [--secret <secret>]",
+    description:
+      "Send captured events again, signed with your secret. The file holds an event or an array of events",
+    columns: DELIVERY_COLUMNS,
+    run: async (context) => {
+      const path = arg(context.args, 0, "file");
+      const text = await readFile(path, "utf8");
+      const events = parseJson(text, path);
+
+      // A single event is sent byte for byte, as captured
+      const payloads = Array.isArray(events) ? events.map((e) => JSON.stringify(e)) : [text];
+      const items: Delivery[] = [];
+      for (const payload of payloads) {
+        items.push(await deliver(context, payload));
+      }
+      return { items };
+    },
+  },
+};
+
+/**
+ * POST a payload signed like Creem does to the `--to` URL
+ */
+async function deliver(context: CommandContext, payload: string): Promise<Delivery> {
+  const url = requiredFlag(context.flags, "to");
+  const secret = stringFlag(context.flags, "secret") ?? context.config.webhookSecret;
+  if (!secret) {
+    throw new Error(
+      "No webhook secret: pass --secret, set CREEM_WEBHOOK_SECRET or add a webhookSecret to the profile",
+    );
+  }
+
+  const { id, eventType } = JSON.parse(payload);
+  const response = await context.fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      [SIGNATURE_HEADER]: await signWebhookPayload(payload, secret),
+    },
+    body: payload,
+  });
+  if (!response.ok) {
+    const body = (await response.text()).slice(0, 500);
+    throw new Error(
+      `${url} responded to ${eventType} (${id}) with ${response.status}${body ? `: ${body}` : ""}`,
+    );
+  }
+  return { id, eventType, status: response.status };
+}
+
+function parseJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${source}: ${(error as Error).message}`);
+  }
+}
+
+function isJsonObject(value: unknown): value is WebhookPayloadOverrides {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,183 @@
+import { Entitlement, EntitlementStore } from "../types/entitlements";
+import { Metadata } from "../types/general";
+import {
+  CheckoutCompletedEvent,
+  GrantAccessContext,
+  PurchaseRevokeAccessContext,
+  RevokeAccessContext,
+  WebhookOptions,
+} from "../types/webhooks";
+import { createMemoryEntitlementStore } from "./memory";
+
+export { createMemoryEntitlementStore } from "./memory";
+export { createSqliteEntitlementStore } from "./sqlite";
+export type { SqliteDatabase, SqliteEntitlementStoreOptions } from "./sqlite";
+
+export interface EntitlementsOptions {
+  /** Where entitlements are kept. Defaults to an in-memory store */
+  store?: EntitlementStore;
+  /** Reads your own customer identifier from the purchase metadata. Defaults to `metadata.referenceId` */
+  referenceId?: (metadata: Metadata | undefined) => string | undefined;
+  /**
+   * Returns the current time in milliseconds, to check `currentPeriodEnd` in `hasAccess`.
+   * Defaults to `Date.now`, override in tests.
+   */
+  clock?: () => number;
+}
+
+export interface Entitlements {
+  /** Webhook handlers that keep the store up to date. Spread them into `handleEvents`. */
+  handlers: Required<
+    Pick<
+      WebhookOptions,
+      "onGrantAccess" | "onRevokeAccess" | "onRevokeAccessForPurchase" | "onCheckoutCompleted"
+    >
+  >;
+  /** Record a grant, for use inside your own `onGrantAccess` */
+  grant(context: GrantAccessContext): Promise<void>;
+  /** Record a revocation, for use inside your own `onRevokeAccess` or `onRevokeAccessForPurchase` */
+  revoke(context: RevokeAccessContext | PurchaseRevokeAccessContext): Promise<void>;
+  /**
+   * Whether the customer, by customer ID or reference ID, currently has access to the product.
+   * Subscription access also ends once `currentPeriodEnd` has passed.
+   */
+  hasAccess(customerIdOrReferenceId: string, productId: string): Promise<boolean>;
+  /** All entitlements of a customer, by customer ID or reference ID */
+  list(customerIdOrReferenceId: string): Promise<Entitlement[]>;
+}
+
+/**
+ * Track which customers have access to which products from webhook events.
+ * Subscriptions follow the webhook access policy; one-time purchases are granted on checkout.
+ *
+ * @example
+ * const entitlements = createEntitlements({ store: createSqliteEntitlementStore(db) });
+ *
+ * await creem.webhooks.handleEvents(body, signature, entitlements.handlers);
+ *
+ * if (await entitlements.hasAccess(user.id, "prod_pro")) {
+ *   // ...
+ * }
+ */
+export function createEntitlements(options: EntitlementsOptions = {}): Entitlements {
+  const store = options.store ?? createMemoryEntitlementStore();
+  const readReferenceId =
+    options.referenceId ??
+    ((metadata) => (metadata?.referenceId != null ? String(metadata.referenceId) : undefined));
+  const now = () => new Date((options.clock ?? Date.now)());
+
+  /**
+   * Save an entitlement unless the stored one comes from a newer change,
+   * so events delivered out of order do not undo each other
+   */
+  const write = async (entitlement: Entitlement) => {
+    const current = await store.get(entitlement.customerId, entitlement.productId);
+    if (current && current.updatedAt > entitlement.updatedAt) return;
+
+    await store.set({
+      ...entitlement,
+      referenceId: entitlement.referenceId ?? current?.referenceId,
+    });
+  };
+
+  const recordSubscription = (
+    context: GrantAccessContext | RevokeAccessContext,
+    status: Entitlement["status"],
+  ) =>
+    write({
+      customerId: idOf(context.customer)!,
+      referenceId: readReferenceId(context.metadata),
+      productId: idOf(context.product)!,
+      status,
+      reason: context.reason,
+      currentPeriodEnd: toDate(context.currentPeriodEndDate),
+      subscriptionId: context.id,
+      updatedAt: toDate(context.updatedAt) ?? now(),
+    });
+
+  const grant = (context: GrantAccessContext) => recordSubscription(context, "active");
+
+  // Refunds and disputes name the purchase, not the product, so revoke whatever it granted
+  const revokePurchase = async (context: PurchaseRevokeAccessContext) => {
+    const entity = context.reason === "refund_created" ? context.refund : context.dispute;
+    const { transaction } = entity;
+    const customerId = idOf(entity.customer) ?? transaction.customer;
+    const subscriptionId = idOf(entity.subscription) ?? transaction.subscription;
+    const orderId = entity.order ?? transaction.order;
+    if (!customerId) return;
+
+    const granted = (await store.list(customerId)).filter(
+      (e) =>
+        e.customerId === customerId &&
+        ((subscriptionId && e.subscriptionId === subscriptionId) ||
+          (orderId && e.orderId === orderId)),
+    );
+    for (const entitlement of granted) {
+      await write({
+        ...entitlement,
+        status: "revoked",
+        reason: context.reason,
+        updatedAt: toDate(entity.createdAt) ?? now(),
+      });
+    }
+  };
+
+  const revoke = async (context: RevokeAccessContext | PurchaseRevokeAccessContext) =>
+    context.reason === "refund_created" || context.reason === "dispute_created"
+      ? revokePurchase(context)
+      : recordSubscription(context, "revoked");
+
+  // Subscription purchases are tracked through their subscription events
+  const recordCheckout = async (checkout: CheckoutCompletedEvent) => {
+    const { order } = checkout;
+    const customerId = idOf(checkout.customer) ?? order?.customer;
+    if (checkout.subscription || !customerId) return;
+
+    await write({
+      customerId,
+      referenceId: readReferenceId(checkout.metadata),
+      productId: idOf(checkout.product)!,
+      status: "active",
+      reason: "checkout_completed",
+      orderId: order?.id,
+      updatedAt: toDate(order?.updatedAt) ?? now(),
+    });
+  };
+
+  return {
+    handlers: {
+      onGrantAccess: grant,
+      onRevokeAccess: revoke,
+      onRevokeAccessForPurchase: revokePurchase,
+      onCheckoutCompleted: recordCheckout,
+    },
+    grant,
+    revoke,
+    // Subscriptions canceled without an expired event lose access at the end of their period
+    hasAccess: async (customerIdOrReferenceId, productId) =>
+      (await store.list(customerIdOrReferenceId)).some(
+        (e) =>
+          e.productId === productId &&
+          e.status === "active" &&
+          (!e.currentPeriodEnd || e.currentPeriodEnd > now()),
+      ),
+    list: async (customerIdOrReferenceId) => store.list(customerIdOrReferenceId),
+  };
+}
+
+function idOf(value: { id: string } | string | undefined): string | undefined {
+  return typeof value === "string" ? value : value?.id;
+}
+
+/**
+ * Accepts hydrated dates as well as the ISO strings and epoch numbers sent
+ * when `hydrateDates` is disabled
+ */
+function toDate(value: Date | string | number | null | undefined): Date | undefined {
+  if (value === null || value === undefined) return undefined;
+  const date =
+    value instanceof Date
+      ? value
+      : new Date(typeof value === "number" && value < 1e12 ? value * 1000 : value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,22 @@
+import { Entitlement, EntitlementStore } from "../types/entitlements";
+
+/**
+ * In-memory `EntitlementStore`.
+ * Entitlements are lost on restart and not shared between processes; use it for tests and prototypes.
+ */
+export function createMemoryEntitlementStore(): EntitlementStore {
+  const entries = new Map<string, Entitlement>();
+  const key = (customerId: string, productId: string) => `${customerId}\u0000${productId}`;
+
+  return {
+    get: (customerId, productId) => entries.get(key(customerId, productId)),
+    list: (customerIdOrReferenceId) =>
+      [...entries.values()].filter(
+        (e) =>
+          e.customerId === customerIdOrReferenceId || e.referenceId === customerIdOrReferenceId,
+      ),
+    set: (entitlement) => {
+      entries.set(key(entitlement.customerId, entitlement.productId), { ...entitlement });
+    },
+  };
+}
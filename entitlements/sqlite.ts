@@ -0,0 +1,121 @@
+import { Entitlement, EntitlementStore } from "../types/entitlements";
+
+type SqliteValue = string | number | null;
+
+/**
+ * The subset of a synchronous SQLite database used by `createSqliteEntitlementStore`.
+ * Both `better-sqlite3` and Node's built-in `node:sqlite` (`DatabaseSync`) satisfy it.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: SqliteValue[]): unknown;
+    get(...params: SqliteValue[]): unknown;
+    all(...params: SqliteValue[]): unknown[];
+  };
+}
+
+export interface SqliteEntitlementStoreOptions {
+  /** Table to keep entitlements in. Created if it does not exist. Defaults to "creem_entitlements" */
+  table?: string;
+}
+
+interface EntitlementRow {
+  customer_id: string;
+  product_id: string;
+  reference_id: string | null;
+  status: Entitlement["status"];
+  reason: Entitlement["reason"];
+  current_period_end: number | null;
+  subscription_id: string | null;
+  order_id: string | null;
+  updated_at: number;
+}
+
+/**
+ * `EntitlementStore` backed by a SQLite database file.
+ * Pass a database opened with `better-sqlite3` or `node:sqlite`; the SDK does not depend on either.
+ *
+ * @example
+ * import Database from "better-sqlite3";
+ *
+ * const store = createSqliteEntitlementStore(new Database("entitlements.db"));
+ */
+export function createSqliteEntitlementStore(
+  database: SqliteDatabase,
+  options: SqliteEntitlementStoreOptions = {},
+): EntitlementStore {
+  const table = options.table ?? "creem_entitlements";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid entitlements table name: ${table}`);
+  }
+
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      customer_id TEXT NOT NULL,
+      product_id TEXT NOT NULL,
+      reference_id TEXT,
+      status TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      current_period_end INTEGER,
+      subscription_id TEXT,
+      order_id TEXT,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (customer_id, product_id)
+    );
+    CREATE INDEX IF NOT EXISTS ${table}_reference_id ON ${table} (reference_id);
+  `);
+
+  const select = database.prepare(
+    `SELECT * FROM ${table} WHERE customer_id = ? AND product_id = ?`,
+  );
+  const selectAll = database.prepare(
+    `SELECT * FROM ${table} WHERE customer_id = ? OR reference_id = ?`,
+  );
+  const upsert = database.prepare(
+    `INSERT OR REPLACE INTO ${table} (customer_id, product_id, reference_id, status, reason,
+      current_period_end, subscription_id, order_id, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+
+  return {
+    get: (customerId, productId) => {
+      const row = select.get(customerId, productId) as EntitlementRow | undefined;
+      return row ? fromRow(row) : undefined;
+    },
+    list: (customerIdOrReferenceId) =>
+      (selectAll.all(customerIdOrReferenceId, customerIdOrReferenceId) as EntitlementRow[]).map(
+        fromRow,
+      ),
+    set: (e) => {
+      upsert.run(
+        e.customerId,
+        e.productId,
+        e.referenceId ?? null,
+        e.status,
+        e.reason,
+        e.currentPeriodEnd?.getTime() ?? null,
+        e.subscriptionId ?? null,
+        e.orderId ?? null,
+        e.updatedAt.getTime(),
+      );
+    },
+  };
+}
+
+function fromRow(row: EntitlementRow): Entitlement {
+  const entitlement: Entitlement = {
+    customerId: row.customer_id,
+    productId: row.product_id,
+    status: row.status,
+    reason: row.reason,
+    updatedAt: new Date(row.updated_at),
+  };
+  if (row.reference_id !== null) entitlement.referenceId = row.reference_id;
+  if (row.current_period_end !== null) {
+    entitlement.currentPeriodEnd = new Date(row.current_period_end);
+  }
+  if (row.subscription_id !== null) entitlement.subscriptionId = row.subscription_id;
+  if (row.order_id !== null) entitlement.orderId = row.order_id;
+  return entitlement;
+}
@@ -0,0 +1,328 @@
+import type { SchemaDriftReport } from "./schemas";
+
+/**
+ * Details describing the failed API call, attached to every `CreemApiError`
+ */
+export interface CreemApiErrorOptions {
+  /** HTTP status code returned by the API */
+  status: number;
+  /** HTTP method of the failed request */
+  method: string;
+  /** Request path, e.g. "/v1/products" */
+  path: string;
+  /** Parsed response body, if the API returned JSON */
+  body?: unknown;
+  /** Trace/request ID reported by the API, useful when contacting support */
+  requestId?: string;
+  /** Value of the `Retry-After` header, in seconds */
+  retryAfter?: number;
+}
+
+/**
+ * Field-level validation issue reported by the API
+ */
+export interface ValidationErrorDetail {
+  /** The offending field, when it can be determined */
+  field?: string;
+  /** Human readable description of the issue */
+  message: string;
+}
+
+/**
+ * A webhook handler that threw, reported by `WebhookHandlerError`
+ */
+export interface WebhookHandlerFailure {
+  /** Handler name, e.g. "onGrantAccess" or `on("subscription.*")` for a listener */
+  handler: string;
+  /** The error thrown by the handler */
+  error: unknown;
+}
+
+/**
+ * Base class for all errors returned by the Creem API
+ */
+export class CreemApiError extends Error {
+  /** HTTP status code returned by the API */
+  readonly status: number;
+  /** HTTP method of the failed request */
+  readonly method: string;
+  /** Request path of the failed request */
+  readonly path: string;
+  /** Parsed response body, if the API returned JSON */
+  readonly body: unknown;
+  /** Trace/request ID reported by the API */
+  readonly requestId?: string;
+  /** Seconds to wait before retrying, from the `Retry-After` header */
+  readonly retryAfter?: number;
+
+  constructor(message: string, options: CreemApiErrorOptions) {
+    super(message);
+    this.name = "CreemApiError";
+    this.status = options.status;
+    this.method = options.method;
+    this.path = options.path;
+    this.body = options.body;
+    this.requestId = options.requestId;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Thrown for 401 and 403 responses (invalid, missing or insufficiently scoped API key)
+ */
+export class CreemAuthenticationError extends CreemApiError {
+  constructor(message: string, options: CreemApiErrorOptions) {
+    super(message, options);
+    this.name = "CreemAuthenticationError";
+  }
+}
+
+/**
+ * Thrown for 404 responses
+ */
+export class CreemNotFoundError extends CreemApiError {
+  constructor(message: string, options: CreemApiErrorOptions) {
+    super(message, options);
+    this.name = "CreemNotFoundError";
+  }
+}
+
+/**
+ * Thrown for 400 and 422 responses. `details` lists the individual field issues.
+ */
+export class CreemValidationError extends CreemApiError {
+  /** Field-level validation issues reported by the API */
+  readonly details: ValidationErrorDetail[];
+
+  constructor(message: string, options: CreemApiErrorOptions) {
+    super(message, options);
+    this.name = "CreemValidationError";
+    this.details = parseValidationDetails(options.body);
+  }
+}
+
+/**
+ * Thrown for 429 responses. `retryAfter` holds the wait time requested by the API.
+ */
+export class CreemRateLimitError extends CreemApiError {
+  constructor(message: string, options: CreemApiErrorOptions) {
+    super(message, options);
+    this.name = "CreemRateLimitError";
+  }
+}
+
+/**
+ * Thrown for 5xx responses
+ */
+export class CreemServerError extends CreemApiError {
+  constructor(message: string, options: CreemApiErrorOptions) {
+    super(message, options);
+    this.name = "CreemServerError";
+  }
+}
+
+/**
+ * An error a custom `fetch` can throw to fail the request without it being retried.
+ * Checked by the `retryable` property rather than `instanceof`, so any error can opt out.
+ */
+export interface NonRetryableError extends Error {
+  readonly retryable: false;
+}
+
+/**
+ * Whether an error opted out of retries by setting `retryable: false`
+ */
+export function isNonRetryableError(error: unknown): error is NonRetryableError {
+  return error instanceof Error && (error as Partial<NonRetryableError>).retryable === false;
+}
+
+/**
+ * Thrown when a request does not complete within the configured timeout
+ */
+export class CreemTimeoutError extends Error {
+  /** The timeout that was exceeded, in milliseconds */
+  readonly timeoutMs: number;
+  /** HTTP method of the timed out request */
+  readonly method: string;
+  /** Request path of the timed out request */
+  readonly path: string;
+
+  constructor(timeoutMs: number, method: string, path: string) {
+    super(`Request ${method} ${path} timed out after ${timeoutMs}ms`);
+    this.name = "CreemTimeoutError";
+    this.timeoutMs = timeoutMs;
+    this.method = method;
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when `validateResponses` is "throw" and a response does not match its declared type
+ */
+export class CreemSchemaError extends Error {
+  /** The differences found between the response and its declared type */
+  readonly report: SchemaDriftReport;
+
+  constructor(report: SchemaDriftReport) {
+    super(
+      `Response of ${report.method} ${report.path} does not match ${report.schema}: ${formatDriftIssues(report)}`,
+    );
+    this.name = "CreemSchemaError";
+    this.report = report;
+  }
+}
+
+/**
+ * Thrown when a webhook payload's signature does not match the webhook secret
+ */
+export class WebhookSignatureError extends Error {
+  constructor(message = "Invalid webhook signature") {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+/**
+ * Thrown when a correctly signed webhook payload is not valid JSON or not a webhook event.
+ * Redelivering it would fail the same way, so respond with a 4xx.
+ */
+export class WebhookPayloadError extends Error {
+  constructor(message = "Invalid webhook event structure") {
+    super(message);
+    this.name = "WebhookPayloadError";
+  }
+}
+
+/**
+ * Thrown when a webhook event's `created_at` falls outside the configured tolerance window
+ */
+export class WebhookTimestampError extends Error {
+  /** When the event was created, according to its `created_at` */
+  readonly createdAt: Date;
+  /** The clock time the event was checked at */
+  readonly receivedAt: Date;
+  /** The configured tolerance in seconds */
+  readonly toleranceSeconds: number;
+
+  constructor(createdAt: Date, receivedAt: Date, toleranceSeconds: number) {
+    const skew = Math.round((receivedAt.getTime() - createdAt.getTime()) / 1000);
+    super(
+      skew > 0
+        ? `Webhook event is too old: created ${skew}s ago, tolerance is ${toleranceSeconds}s`
+        : `Webhook event is too far in the future: created ${-skew}s ahead, tolerance is ${toleranceSeconds}s`,
+    );
+    this.name = "WebhookTimestampError";
+    this.createdAt = createdAt;
+    this.receivedAt = receivedAt;
+    this.toleranceSeconds = toleranceSeconds;
+  }
+}
+
+/**
+ * Thrown by `handleEvents` when one or more webhook handlers threw.
+ * `failures` lists each failed handler with its error, in the order they ran.
+ */
+export class WebhookHandlerError extends Error {
+  /** Type of the event being handled */
+  readonly eventType: string;
+  /** Id of the event being handled */
+  readonly eventId: string;
+  /** The handlers that threw */
+  readonly failures: WebhookHandlerFailure[];
+
+  constructor(eventType: string, eventId: string, failures: WebhookHandlerFailure[]) {
+    const summary = failures
+      .map(({ handler, error }) => `${handler}: ${error instanceof Error ? error.message : error}`)
+      .join("; ");
+    super(
+      `${failures.length === 1 ? "Webhook handler" : `${failures.length} webhook handlers`} failed for ${eventType} (${eventId}): ${summary}`,
+    );
+    this.name = "WebhookHandlerError";
+    this.eventType = eventType;
+    this.eventId = eventId;
+    this.failures = failures;
+  }
+}
+
+/**
+ * Create the most specific `CreemApiError` subclass for an HTTP status
+ */
+export function createApiError(message: string, options: CreemApiErrorOptions): CreemApiError {
+  const { status } = options;
+
+  if (status === 401 || status === 403) return new CreemAuthenticationError(message, options);
+  if (status === 404) return new CreemNotFoundError(message, options);
+  if (status === 400 || status === 422) return new CreemValidationError(message, options);
+  if (status === 429) return new CreemRateLimitError(message, options);
+  if (status >= 500) return new CreemServerError(message, options);
+
+  return new CreemApiError(message, options);
+}
+
+/**
+ * Parse a `Retry-After` header value (delta-seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - now) / 1000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract field-level details from an error body.
+ * The API reports validation issues either as `message: string[]` or `errors: { field, message }[]`.
+ */
+function parseValidationDetails(body: unknown): ValidationErrorDetail[] {
+  if (!body || typeof body !== "object") return [];
+  const { message, errors } = body as { message?: unknown; errors?: unknown };
+
+  if (Array.isArray(errors)) {
+    return errors
+      .filter((e): e is Record<string, unknown> => !!e && typeof e === "object")
+      .map((e) => ({
+        field: typeof e.field === "string" ? e.field : undefined,
+        message: typeof e.message === "string" ? e.message : String(e.message ?? ""),
+      }));
+  }
+
+  if (Array.isArray(message)) {
+    return message
+      .filter((m): m is string => typeof m === "string")
+      .map((m) => {
+        // Messages are prefixed with the property name, e.g. "product_id must be a string"
+        const [first] = m.split(" ");
+        return {
+          field: /^[a-z][a-z0-9_.]*$/.test(first) && first !== m ? first : undefined,
+          message: m,
+        };
+      });
+  }
+
+  return [];
+}
+
+/**
+ * Summarize drift issues as "unexpected: a, b; missing: c; type: d (expected string, got number)"
+ */
+export function formatDriftIssues(report: SchemaDriftReport): string {
+  return report.issues
+    .map((issue) =>
+      issue.kind === "type"
+        ? `${issue.path || "<root>"} (expected ${issue.expected}, got ${issue.received})`
+        : `${issue.kind} ${issue.path}`,
+    )
+    .join("; ");
+}
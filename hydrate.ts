@@ -0,0 +1,55 @@
+/**
+ * Timestamp fields per entity, keyed by the entity's `object` discriminator.
+ * The API sends these as ISO strings or epoch numbers; they are declared as `Date` in the types.
+ */
+const DATE_FIELDS: Record<string, string[]> = {
+  product: ["createdAt", "updatedAt"],
+  customer: ["createdAt", "updatedAt"],
+  order: ["createdAt", "updatedAt"],
+  transaction: ["createdAt", "periodStart", "periodEnd"],
+  subscription: [
+    "lastTransactionDate",
+    "nextTransactionDate",
+    "currentPeriodStartDate",
+    "currentPeriodEndDate",
+    "canceledAt",
+    "createdAt",
+    "updatedAt",
+  ],
+  license: ["expiresAt", "createdAt"],
+  "license-instance": ["createdAt"],
+};
+
+/**
+ * Recursively convert the known timestamp fields of camelCased API entities into `Date` objects.
+ * Entities are recognized by their `object` field; unknown fields and values are left untouched.
+ */
+export function hydrateDates(obj: any): any {
+  if (Array.isArray(obj)) {
+    return obj.map((v) => hydrateDates(v));
+  } else if (obj !== null && obj.constructor === Object) {
+    const dateFields = typeof obj.object === "string" ? DATE_FIELDS[obj.object] : undefined;
+
+    return Object.keys(obj).reduce((result, key) => {
+      result[key] = dateFields?.includes(key) ? toDate(obj[key]) : hydrateDates(obj[key]);
+      return result;
+    }, {} as any);
+  }
+  return obj;
+}
+
+/**
+ * Convert an ISO string or epoch timestamp (seconds or milliseconds) into a Date.
+ * Values that cannot be parsed are returned unchanged.
+ */
+function toDate(value: unknown): unknown {
+  if (typeof value === "number") {
+    // Epoch seconds are 10 digits until the year 2286
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+  if (typeof value === "string") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
@@ -0,0 +1,45 @@
+import { WebhookIdempotencyStore } from "./types/webhooks";
+
+export interface MemoryIdempotencyStoreOptions {
+  /** Maximum number of event ids to remember. The least recently used are evicted first. Defaults to 10000 */
+  maxSize?: number;
+}
+
+/**
+ * In-memory, least-recently-used `WebhookIdempotencyStore`.
+ * Only deduplicates deliveries received by the same process; use a shared store across instances.
+ */
+export function createMemoryIdempotencyStore(
+  options: MemoryIdempotencyStoreOptions = {},
+): WebhookIdempotencyStore {
+  const maxSize = options.maxSize ?? 10_000;
+  const entries = new Map<string, "processing" | "done">();
+
+  // Map iteration follows insertion order, so re-inserting moves an id to the most recent end
+  const touch = (eventId: string, state: "processing" | "done") => {
+    entries.delete(eventId);
+    entries.set(eventId, state);
+    while (entries.size > maxSize) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+
+  return {
+    has: (eventId) => {
+      const state = entries.get(eventId);
+      if (state === "done") touch(eventId, state);
+      return state === "done";
+    },
+    markProcessing: (eventId) => {
+      if (entries.has(eventId)) return false;
+      touch(eventId, "processing");
+      return true;
+    },
+    markDone: (eventId) => {
+      touch(eventId, "done");
+    },
+    release: (eventId) => {
+      if (entries.get(eventId) === "processing") entries.delete(eventId);
+    },
+  };
+}
@@ -8,27 +8,93 @@ import { discountsResource } from "./resources/discounts";
 import { webhooksResource } from "./resources/webhooks";
 import { statsResource } from "./resources/stats";
 import { createRequest } from "./request";
+import { FetchFn, Middleware, RetryOptions } from "./types/core";
+import { WebhookConfig } from "./types/webhooks";
+import { SchemaDriftReport } from "./schemas";
 
 /**
  * @deprecated This package is deprecated. Please use the `creem` package instead: `npm install creem`
  */
 interface CreemOptions {
   apiKey: string;
-  webhookSecret?: string;
+  /**
+   * Webhook signing secret. Pass several secrets while rotating it; a signature matching any
+   * of them is accepted, and `handleEvents` reports which one matched.
+   */
+  webhookSecret?: string | string[];
   testMode?: boolean;
+  /**
+   * Retry policy for failed requests. Enabled by default (3 attempts with exponential backoff).
+   * Pass `false` to disable retries.
+   */
+  retry?: Partial<RetryOptions> | false;
+  /** Timeout for each request attempt in milliseconds. Can be overridden per call. */
+  timeoutMs?: number;
+  /**
+   * Automatically send a generated `Idempotency-Key` with every POST request that does not
+   * pass `idempotencyKey`, which also makes those requests eligible for retries.
+   */
+  autoIdempotencyKey?: boolean;
+  /** Custom API base URL, e.g. a local stub server. Takes precedence over `testMode`. */
+  baseUrl?: string;
+  /** Custom `fetch` implementation, e.g. undici's `fetch` with a tuned dispatcher */
+  fetch?: FetchFn;
+  /** Hooks run around every request, e.g. for tracing headers or latency logging */
+  middleware?: Middleware[];
+  /**
+   * Convert entity timestamps (e.g. `createdAt`, `currentPeriodEndDate`) into `Date` objects.
+   * Set to `false` to keep the raw values sent by the API. Defaults to true.
+   */
+  hydrateDates?: boolean;
+  /**
+   * Check every response against its declared type and report fields that were added, removed
+   * or changed type by the API. "warn" reports drift through `onSchemaDrift`, "throw" rejects
+   * the call with a `CreemSchemaError`. Disabled by default.
+   */
+  validateResponses?: "warn" | "throw";
+  /** Receives drift reports when `validateResponses` is "warn". Defaults to `console.warn`. */
+  onSchemaDrift?: (report: SchemaDriftReport) => void;
+  /**
+   * Webhook settings, e.g. `{ toleranceSeconds: 300 }` for replay protection or an
+   * `idempotencyStore` to skip redelivered events
+   */
+  webhooks?: Omit<WebhookConfig, "hydrateDates">;
 }
 
 /**
  * @deprecated This package is deprecated. Please use the `creem` package instead: `npm install creem`
  */
-export function createCreem({ apiKey, webhookSecret, testMode = false }: CreemOptions) {
+export function createCreem({
+  apiKey,
+  webhookSecret,
+  testMode = false,
+  retry = {},
+  timeoutMs,
+  autoIdempotencyKey = false,
+  baseUrl,
+  fetch,
+  middleware,
+  hydrateDates = true,
+  validateResponses,
+  onSchemaDrift,
+  webhooks,
+}: CreemOptions) {
   console.warn(
     "[creem_io] This package is deprecated. Please migrate to the official 'creem' package: npm install creem",
   );
 
-  const baseUrl = testMode ? "https://test-api.creem.io" : "https://api.creem.io";
+  const apiUrl = baseUrl ?? (testMode ? "https://test-api.creem.io" : "https://api.creem.io");
 
-  const request = createRequest(apiKey, baseUrl);
+  const request = createRequest(apiKey, apiUrl, {
+    retry,
+    timeoutMs,
+    autoIdempotencyKey,
+    fetch,
+    middleware,
+    hydrateDates,
+    validateResponses,
+    onSchemaDrift,
+  });
 
   return {
     products: productsResource(request),
@@ -38,9 +104,53 @@ export function createCreem({ apiKey, webhookSecret, testMode = false }: CreemOp
     transactions: transactionsResource(request),
     licenses: licensesResource(request),
     discounts: discountsResource(request),
-    webhooks: webhooksResource(webhookSecret),
+    webhooks: webhooksResource(webhookSecret, { ...webhooks, hydrateDates }),
     stats: statsResource(request),
   };
 }
 
+export { DEFAULT_ACCESS_POLICY, isKnownWebhookEvent } from "./resources/webhooks";
+export { createMemoryIdempotencyStore } from "./idempotency";
+export {
+  createEntitlements,
+  createMemoryEntitlementStore,
+  createSqliteEntitlementStore,
+} from "./entitlements";
+export type {
+  Entitlements,
+  EntitlementsOptions,
+  SqliteDatabase,
+  SqliteEntitlementStoreOptions,
+} from "./entitlements";
+export type { MemoryIdempotencyStoreOptions } from "./idempotency";
 export * from "./types";
+export type {
+  FetchFn,
+  Middleware,
+  RequestContext,
+  RequestErrorContext,
+  RequestOptions,
+  ResponseContext,
+  RetryOptions,
+} from "./types/core";
+export {
+  CreemApiError,
+  CreemAuthenticationError,
+  CreemNotFoundError,
+  CreemValidationError,
+  CreemRateLimitError,
+  CreemServerError,
+  CreemTimeoutError,
+  CreemSchemaError,
+  WebhookSignatureError,
+  WebhookPayloadError,
+  WebhookTimestampError,
+  WebhookHandlerError,
+} from "./errors";
+export type {
+  CreemApiErrorOptions,
+  NonRetryableError,
+  ValidationErrorDetail,
+  WebhookHandlerFailure,
+} from "./errors";
+export type { SchemaDriftIssue, SchemaDriftReport } from "./schemas";
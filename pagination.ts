@@ -0,0 +1,68 @@
+import { Page, PageIterator } from "./types/general";
+
+interface PaginateOptions {
+  /** First page to fetch. Defaults to 1 */
+  startPage?: number;
+  /** Number of pages to fetch ahead concurrently */
+  prefetch?: number;
+}
+
+/**
+ * Iterate over every item of a paginated endpoint, following `pagination.nextPage`.
+ * With `prefetch`, up to that many upcoming pages are requested concurrently.
+ */
+export function paginate<T>(
+  fetchPage: (page: number) => Promise<Page<T>>,
+  { startPage = 1, prefetch = 0 }: PaginateOptions = {},
+): PageIterator<T> {
+  async function* items(): AsyncGenerator<T> {
+    const first = await fetchPage(startPage);
+    yield* first.items;
+
+    const { nextPage, totalPages } = first.pagination;
+    if (nextPage === null) return;
+
+    if (prefetch <= 0 || !totalPages) {
+      let page: number | null = nextPage;
+      while (page !== null) {
+        const result = await fetchPage(page);
+        yield* result.items;
+        page = result.pagination.nextPage;
+      }
+      return;
+    }
+
+    // Page numbers are known up front, so keep up to `prefetch` requests in flight
+    const queue: Promise<Page<T>>[] = [];
+    let upcoming = nextPage;
+    const fill = () => {
+      while (upcoming <= totalPages && queue.length < prefetch) {
+        const request = fetchPage(upcoming++);
+        // Rejections surface when the page is awaited; avoid unhandled rejections meanwhile
+        request.catch(() => {});
+        queue.push(request);
+      }
+    };
+
+    fill();
+    while (queue.length > 0) {
+      const result = await queue.shift()!;
+      fill();
+      yield* result.items;
+    }
+  }
+
+  return {
+    [Symbol.asyncIterator]: () => items(),
+    toArray: async ({ max = Infinity } = {}) => {
+      const result: T[] = [];
+      if (max <= 0) return result;
+
+      for await (const item of items()) {
+        result.push(item);
+        if (result.length >= max) break;
+      }
+      return result;
+    },
+  };
+}
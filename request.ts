@@ -1,52 +1,299 @@
-import { toCamelCase } from "./utils";
-import { RequestFn } from "./types/core";
+import { toCamelCase, generateIdempotencyKey } from "./utils";
+import { hydrateDates } from "./hydrate";
+import {
+  FetchFn,
+  HttpMethod,
+  Middleware,
+  RequestContext,
+  RequestFn,
+  RequestOptions,
+  RetryOptions,
+} from "./types/core";
+import {
+  CreemApiError,
+  CreemSchemaError,
+  CreemTimeoutError,
+  createApiError,
+  formatDriftIssues,
+  isNonRetryableError,
+  parseRetryAfter,
+} from "./errors";
+import { SchemaDriftReport, validateResponse } from "./schemas";
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+};
+
+export interface RequestConfig {
+  /** Retry policy, merged over `DEFAULT_RETRY_OPTIONS`. Requests are not retried when omitted. */
+  retry?: Partial<RetryOptions> | false;
+  /** Default timeout for each attempt in milliseconds. No timeout when omitted. */
+  timeoutMs?: number;
+  /** Generate an idempotency key for POST requests that do not pass one */
+  autoIdempotencyKey?: boolean;
+  /** `fetch` implementation to use. Defaults to the global `fetch` at call time. */
+  fetch?: FetchFn;
+  /** Hooks run around every request attempt */
+  middleware?: Middleware[];
+  /** Convert entity timestamps into `Date` objects. Defaults to true */
+  hydrateDates?: boolean;
+  /** Compare responses with their declared types. Disabled when omitted. */
+  validateResponses?: "warn" | "throw";
+  /** Receives drift reports in "warn" mode. Defaults to `console.warn`. */
+  onSchemaDrift?: (report: SchemaDriftReport) => void;
+}
+
+export const createRequest = (
+  apiKey: string,
+  baseUrl: string,
+  config: RequestConfig = {},
+): RequestFn => {
+  const retry = config.retry ? { ...DEFAULT_RETRY_OPTIONS, ...config.retry } : undefined;
+  const middleware = config.middleware ?? [];
+  // Response hooks unwind in reverse order, like an onion
+  const unwinding = [...middleware].reverse();
+  const parse = (json: unknown) =>
+    config.hydrateDates === false ? toCamelCase(json) : hydrateDates(toCamelCase(json));
 
-export const createRequest = (apiKey: string, baseUrl: string): RequestFn => {
   return async <T>(
-    method: "GET" | "POST" | "PUT" | "DELETE",
+    method: HttpMethod,
     path: string,
     data?: unknown,
     queryParams?: Record<string, string | number | boolean | undefined>,
+    options: RequestOptions = {},
   ): Promise<T> => {
-    const headers = {
+    const headers: Record<string, string> = {
       "Content-Type": "application/json",
       "x-api-key": apiKey,
       "User-Agent": "creem-sdk-node/0.5.0",
     };
+    // Generated once per call so every retry attempt reuses the same key
+    const idempotencyKey =
+      options.idempotencyKey ??
+      (config.autoIdempotencyKey && method === "POST" ? generateIdempotencyKey() : undefined);
+    if (idempotencyKey) {
+      headers["Idempotency-Key"] = idempotencyKey;
+    }
 
-    const url = new URL(`${baseUrl}${path}`);
-    if (queryParams) {
-      Object.entries(queryParams).forEach(([key, value]) => {
-        if (value !== undefined) {
-          url.searchParams.append(key, String(value));
-        }
-      });
+    const timeoutMs = options.timeoutMs ?? config.timeoutMs;
+
+    // POST is not idempotent, so it is only safe to retry when the server can deduplicate it
+    const maxAttempts = retry && (method !== "POST" || idempotencyKey) ? retry.maxAttempts : 1;
+
+    if (options.signal?.aborted) {
+      throw options.signal.reason ?? abortError();
     }
 
-    const response = await fetch(url.toString(), {
-      method,
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
+    for (let attempt = 1; ; attempt++) {
+      let context: RequestContext = {
+        method,
+        path,
+        query: queryParams,
+        body: data,
+        headers: { ...headers },
+        attempt,
+      };
+      for (const m of middleware) {
+        context = (await m.onRequest?.(context)) ?? context;
+      }
 
-    if (!response.ok) {
-      let errorMessage = response.statusText;
+      const abort = linkAbortSignal(options.signal, timeoutMs);
+      const startedAt = Date.now();
+      let status: number | undefined;
+      let result: { data: unknown } | undefined;
+      let error: unknown;
 
       try {
-        const errorBody = (await response.json()) as { message?: string };
-        errorMessage = errorBody.message || errorMessage;
-      } catch {
-        // Response wasn't JSON
+        const response = await (config.fetch ?? fetch)(
+          buildUrl(baseUrl, context.path, context.query),
+          {
+            method: context.method,
+            headers: context.headers,
+            body: context.body ? JSON.stringify(context.body) : undefined,
+            signal: abort.signal,
+          },
+        );
+        status = response.status;
+
+        if (!response.ok) {
+          throw await toApiError(response, context.method, context.path);
+        }
+
+        result = { data: response.status === 204 ? {} : parse(await response.json()) };
+      } catch (caught) {
+        error =
+          abort.timedOut && !(caught instanceof CreemApiError)
+            ? new CreemTimeoutError(timeoutMs!, method, path)
+            : caught;
+      } finally {
+        abort.cleanup();
       }
 
-      throw new Error(errorMessage);
-    }
+      const durationMs = Date.now() - startedAt;
 
-    if (response.status === 204) {
-      return {} as T;
-    }
+      if (result) {
+        if (config.validateResponses && status !== 204) {
+          reportDrift(validateResponse(method, path, result.data), config);
+        }
+        for (const m of unwinding) {
+          await m.onResponse?.({ ...context, status: status!, durationMs, data: result.data });
+        }
+        return result.data as T;
+      }
+
+      for (const m of unwinding) {
+        await m.onError?.({ ...context, status, durationMs, error });
+      }
 
-    const responseData = await response.json();
-    return toCamelCase(responseData) as T;
+      const delay = retry && retryDelay(error, attempt, retry);
+      if (
+        !retry ||
+        attempt >= maxAttempts ||
+        options.signal?.aborted ||
+        !isRetryable(error, retry) ||
+        delay === undefined
+      ) {
+        throw error;
+      }
+      await sleep(delay, options.signal);
+    }
   };
 };
+
+function reportDrift(report: SchemaDriftReport | undefined, config: RequestConfig): void {
+  if (!report) return;
+  if (config.validateResponses === "throw") {
+    throw new CreemSchemaError(report);
+  }
+  if (config.onSchemaDrift) {
+    config.onSchemaDrift(report);
+  } else {
+    console.warn(
+      `[creem_io] Response of ${report.method} ${report.path} drifted from ${report.schema}: ${formatDriftIssues(report)}`,
+    );
+  }
+}
+
+function buildUrl(baseUrl: string, path: string, query: RequestContext["query"]): string {
+  const url = new URL(`${baseUrl.replace(/\/+$/, "")}${path}`);
+  if (query) {
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) {
+        url.searchParams.append(key, String(value));
+      }
+    });
+  }
+  return url.toString();
+}
+
+/**
+ * Build a typed API error from a non-2xx response
+ */
+async function toApiError(
+  response: Response,
+  method: HttpMethod,
+  path: string,
+): Promise<CreemApiError> {
+  let errorMessage = response.statusText;
+  let errorBody: unknown;
+
+  try {
+    errorBody = await response.json();
+    const { message } = errorBody as { message?: string | string[] };
+    errorMessage = (Array.isArray(message) ? message.join("; ") : message) || errorMessage;
+  } catch {
+    // Response wasn't JSON
+  }
+
+  const { trace_id: traceId } = (errorBody ?? {}) as { trace_id?: string };
+
+  return createApiError(errorMessage, {
+    status: response.status,
+    method,
+    path,
+    body: errorBody,
+    requestId: traceId ?? response.headers?.get("x-request-id") ?? undefined,
+    retryAfter: parseRetryAfter(response.headers?.get("retry-after")),
+  });
+}
+
+/**
+ * Combine the caller's signal with a per-attempt timeout.
+ * `timedOut` tells a timeout apart from a caller-initiated abort.
+ */
+function linkAbortSignal(signal: AbortSignal | undefined, timeoutMs: number | undefined) {
+  const controller = new AbortController();
+  const state = { signal: controller.signal, timedOut: false, cleanup: () => {} };
+
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener("abort", onAbort);
+
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(() => {
+          state.timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  state.cleanup = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  };
+  return state;
+}
+
+function isRetryable(error: unknown, retry: RetryOptions): boolean {
+  if (error instanceof CreemApiError) {
+    return retry.retryOnStatus.includes(error.status);
+  }
+  if (error instanceof Error && error.name === "AbortError") return false;
+  if (isNonRetryableError(error)) return false;
+
+  const { retryOnNetworkError } = retry;
+  return typeof retryOnNetworkError === "function"
+    ? retryOnNetworkError(error)
+    : retryOnNetworkError;
+}
+
+/**
+ * Exponential backoff: baseDelayMs * 2^(attempt - 1), capped at maxDelayMs.
+ * A `Retry-After` header takes precedence when `respectRetryAfter` is set; when it asks
+ * for longer than maxDelayMs, returns undefined so the error is thrown instead of waiting.
+ */
+function retryDelay(error: unknown, attempt: number, retry: RetryOptions): number | undefined {
+  if (retry.respectRetryAfter && error instanceof CreemApiError && error.retryAfter !== undefined) {
+    const retryAfterMs = error.retryAfter * 1000;
+    return retryAfterMs <= retry.maxDelayMs ? retryAfterMs : undefined;
+  }
+
+  const delay = Math.min(retry.baseDelayMs * 2 ** (attempt - 1), retry.maxDelayMs);
+  return retry.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+function abortError(): Error {
+  return Object.assign(new Error("This operation was aborted"), { name: "AbortError" });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? abortError());
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -1,18 +1,24 @@
-import { RequestFn } from "../types/core";
+import { RequestFn, RequestOptions } from "../types/core";
 import { CreateCheckoutRequest, GetCheckoutRequest, Checkout } from "../types";
 import { required, isString, isNumber, isArray } from "../validate";
 
 export const checkoutsResource = (request: RequestFn) => ({
-  get: (params: GetCheckoutRequest) => {
+  get: (params: GetCheckoutRequest, options?: RequestOptions) => {
     // TODO: Return object has types completely different from create checkout. Check.
     required(params.checkoutId, "checkoutId");
     isString(params.checkoutId, "checkoutId");
 
-    return request<Checkout>("GET", "/v1/checkouts", undefined, {
-      checkout_id: params.checkoutId,
-    });
+    return request<Checkout>(
+      "GET",
+      "/v1/checkouts",
+      undefined,
+      {
+        checkout_id: params.checkoutId,
+      },
+      options,
+    );
   },
-  create: (params: CreateCheckoutRequest) => {
+  create: (params: CreateCheckoutRequest, options?: RequestOptions) => {
     // TODO: Return object is not compatible with types. Like customer, customfields, etc not in object. Check.
     isString(params.requestId, "requestId");
 
@@ -26,16 +32,22 @@ export const checkoutsResource = (request: RequestFn) => ({
     isArray(params.customField, "customField");
     isString(params.successUrl, "successUrl");
 
-    return request<Checkout>("POST", "/v1/checkouts", {
-      request_id: params.requestId,
-      product_id: params.productId,
-      units: params.units,
-      discount_code: params.discountCode,
-      customer: params.customer,
-      custom_fields: params.customFields,
-      custom_field: params.customField,
-      success_url: params.successUrl,
-      metadata: params.metadata,
-    });
+    return request<Checkout>(
+      "POST",
+      "/v1/checkouts",
+      {
+        request_id: params.requestId,
+        product_id: params.productId,
+        units: params.units,
+        discount_code: params.discountCode,
+        customer: params.customer,
+        custom_fields: params.customFields,
+        custom_field: params.customField,
+        success_url: params.successUrl,
+        metadata: params.metadata,
+      },
+      undefined,
+      options,
+    );
   },
 });
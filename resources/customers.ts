@@ -1,4 +1,5 @@
-import { RequestFn } from "../types/core";
+import { RequestFn, RequestOptions } from "../types/core";
+import { paginate } from "../pagination";
 import {
   ListCustomersRequest,
   GetCustomerRequest,
@@ -6,20 +7,50 @@ import {
   CustomerList,
   Customer,
   CustomerLinks,
+  AutoPaginationOptions,
 } from "../types";
 import { required, isString, isNumber } from "../validate";
 
 export const customersResource = (request: RequestFn) => ({
-  list: (params: ListCustomersRequest = {}) => {
+  list: (params: ListCustomersRequest = {}, options?: RequestOptions) => {
     isNumber(params.page, "page");
     isNumber(params.limit, "limit");
 
-    return request<CustomerList>("GET", "/v1/customers/list", undefined, {
-      page_number: params.page,
-      page_size: params.limit,
-    });
+    return request<CustomerList>(
+      "GET",
+      "/v1/customers/list",
+      undefined,
+      {
+        page_number: params.page,
+        page_size: params.limit,
+      },
+      options,
+    );
   },
-  get: (params: GetCustomerRequest) => {
+  listAll: (
+    params: ListCustomersRequest & AutoPaginationOptions = {},
+    options?: RequestOptions,
+  ) => {
+    isNumber(params.page, "page");
+    isNumber(params.limit, "limit");
+    isNumber(params.prefetch, "prefetch");
+
+    return paginate(
+      (page) =>
+        request<CustomerList>(
+          "GET",
+          "/v1/customers/list",
+          undefined,
+          {
+            page_number: page,
+            page_size: params.limit,
+          },
+          options,
+        ),
+      { startPage: params.page, prefetch: params.prefetch },
+    );
+  },
+  get: (params: GetCustomerRequest, options?: RequestOptions) => {
     isString(params.customerId, "customerId");
     isString(params.email, "email");
 
@@ -27,17 +58,29 @@ export const customersResource = (request: RequestFn) => ({
       throw new Error("Either 'customerId' or 'email' must be provided to get a customer.");
     }
 
-    return request<Customer>("GET", "/v1/customers", undefined, {
-      customer_id: params.customerId,
-      email: params.email,
-    });
+    return request<Customer>(
+      "GET",
+      "/v1/customers",
+      undefined,
+      {
+        customer_id: params.customerId,
+        email: params.email,
+      },
+      options,
+    );
   },
-  createPortal: (params: GenerateCustomerPortalLinkRequest) => {
+  createPortal: (params: GenerateCustomerPortalLinkRequest, options?: RequestOptions) => {
     required(params.customerId, "customerId");
     isString(params.customerId, "customerId");
 
-    return request<CustomerLinks>("POST", "/v1/customers/billing", {
-      customer_id: params.customerId,
-    });
+    return request<CustomerLinks>(
+      "POST",
+      "/v1/customers/billing",
+      {
+        customer_id: params.customerId,
+      },
+      undefined,
+      options,
+    );
   },
 });
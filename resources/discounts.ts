@@ -1,4 +1,4 @@
-import { RequestFn } from "../types/core";
+import { RequestFn, RequestOptions } from "../types/core";
 import {
   GetDiscountRequest,
   CreateDiscountRequest,
@@ -8,7 +8,7 @@ import {
 import { required, isString, isNumber, isArray } from "../validate";
 
 export const discountsResource = (request: RequestFn) => ({
-  get: (params: GetDiscountRequest) => {
+  get: (params: GetDiscountRequest, options?: RequestOptions) => {
     // TODO: Missing storeId when returning object. Check.
     isString(params.discountId, "discountId");
     isString(params.discountCode, "discountCode");
@@ -17,12 +17,18 @@ export const discountsResource = (request: RequestFn) => ({
       throw new Error("Either 'discountId' or 'discountCode' must be provided to get a discount.");
     }
 
-    return request<Discount>("GET", "/v1/discounts", undefined, {
-      discount_id: params.discountId,
-      discount_code: params.discountCode,
-    });
+    return request<Discount>(
+      "GET",
+      "/v1/discounts",
+      undefined,
+      {
+        discount_id: params.discountId,
+        discount_code: params.discountCode,
+      },
+      options,
+    );
   },
-  create: (params: CreateDiscountRequest) => {
+  create: (params: CreateDiscountRequest, options?: RequestOptions) => {
     required(params.name, "name");
     isString(params.name, "name");
 
@@ -42,24 +48,36 @@ export const discountsResource = (request: RequestFn) => ({
     isNumber(params.durationInMonths, "durationInMonths");
     isArray(params.appliesToProducts, "appliesToProducts");
 
-    return request<Discount>("POST", "/v1/discounts", {
-      name: params.name,
-      code: params.code,
-      type: params.type,
-      amount: params.amount,
-      currency: params.currency,
-      percentage: params.percentage,
-      expiry_date: params.expiryDate,
-      max_redemptions: params.maxRedemptions,
-      duration: params.duration,
-      duration_in_months: params.durationInMonths,
-      applies_to_products: params.appliesToProducts,
-    });
+    return request<Discount>(
+      "POST",
+      "/v1/discounts",
+      {
+        name: params.name,
+        code: params.code,
+        type: params.type,
+        amount: params.amount,
+        currency: params.currency,
+        percentage: params.percentage,
+        expiry_date: params.expiryDate,
+        max_redemptions: params.maxRedemptions,
+        duration: params.duration,
+        duration_in_months: params.durationInMonths,
+        applies_to_products: params.appliesToProducts,
+      },
+      undefined,
+      options,
+    );
   },
-  delete: (params: DeleteDiscountRequest) => {
+  delete: (params: DeleteDiscountRequest, options?: RequestOptions) => {
     required(params.discountId, "discountId");
     isString(params.discountId, "discountId");
 
-    return request<Discount>("DELETE", `/v1/discounts/${params.discountId}/delete`);
+    return request<Discount>(
+      "DELETE",
+      `/v1/discounts/${params.discountId}/delete`,
+      undefined,
+      undefined,
+      options,
+    );
   },
 });
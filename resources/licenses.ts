@@ -1,4 +1,4 @@
-import { RequestFn } from "../types/core";
+import { RequestFn, RequestOptions } from "../types/core";
 import {
   ActivateLicenseRequest,
   DeactivateLicenseRequest,
@@ -8,40 +8,58 @@ import {
 import { required, isString } from "../validate";
 
 export const licensesResource = (request: RequestFn) => ({
-  activate: (params: ActivateLicenseRequest) => {
+  activate: (params: ActivateLicenseRequest, options?: RequestOptions) => {
     required(params.key, "key");
     isString(params.key, "key");
 
     required(params.instanceName, "instanceName");
     isString(params.instanceName, "instanceName");
 
-    return request<License>("POST", "/v1/licenses/activate", {
-      key: params.key,
-      instance_name: params.instanceName,
-    });
+    return request<License>(
+      "POST",
+      "/v1/licenses/activate",
+      {
+        key: params.key,
+        instance_name: params.instanceName,
+      },
+      undefined,
+      options,
+    );
   },
-  deactivate: (params: DeactivateLicenseRequest) => {
+  deactivate: (params: DeactivateLicenseRequest, options?: RequestOptions) => {
     required(params.key, "key");
     isString(params.key, "key");
 
     required(params.instanceId, "instanceId");
     isString(params.instanceId, "instanceId");
 
-    return request<License>("POST", "/v1/licenses/deactivate", {
-      key: params.key,
-      instance_id: params.instanceId,
-    });
+    return request<License>(
+      "POST",
+      "/v1/licenses/deactivate",
+      {
+        key: params.key,
+        instance_id: params.instanceId,
+      },
+      undefined,
+      options,
+    );
   },
-  validate: (params: ValidateLicenseRequest) => {
+  validate: (params: ValidateLicenseRequest, options?: RequestOptions) => {
     required(params.key, "key");
     isString(params.key, "key");
 
     required(params.instanceId, "instanceId");
     isString(params.instanceId, "instanceId");
 
-    return request<License>("POST", "/v1/licenses/validate", {
-      key: params.key,
-      instance_id: params.instanceId,
-    });
+    return request<License>(
+      "POST",
+      "/v1/licenses/validate",
+      {
+        key: params.key,
+        instance_id: params.instanceId,
+      },
+      undefined,
+      options,
+    );
   },
 });
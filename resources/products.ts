@@ -1,4 +1,5 @@
-import { RequestFn } from "../types/core";
+import { RequestFn, RequestOptions } from "../types/core";
+import { paginate } from "../pagination";
 import {
   CreateProductRequest,
   GetProductRequest,
@@ -6,39 +7,103 @@ import {
   SearchProductsRequest,
   Product,
   ProductList,
+  AutoPaginationOptions,
 } from "../types";
 import { required, requiredWhen, isString, isNumber, isBoolean, isArray } from "../validate";
 
 export const productsResource = (request: RequestFn) => ({
-  list: (params: ListProductsRequest = {}) => {
+  list: (params: ListProductsRequest = {}, options?: RequestOptions) => {
     isNumber(params.page, "page");
     isNumber(params.limit, "limit");
 
-    return request<ProductList>("GET", "/v1/products/search", undefined, {
-      page_number: params.page,
-      page_size: params.limit,
-    });
+    return request<ProductList>(
+      "GET",
+      "/v1/products/search",
+      undefined,
+      {
+        page_number: params.page,
+        page_size: params.limit,
+      },
+      options,
+    );
   },
-  search: (params: SearchProductsRequest = {}) => {
+  listAll: (params: ListProductsRequest & AutoPaginationOptions = {}, options?: RequestOptions) => {
+    isNumber(params.page, "page");
+    isNumber(params.limit, "limit");
+    isNumber(params.prefetch, "prefetch");
+
+    return paginate(
+      (page) =>
+        request<ProductList>(
+          "GET",
+          "/v1/products/search",
+          undefined,
+          {
+            page_number: page,
+            page_size: params.limit,
+          },
+          options,
+        ),
+      { startPage: params.page, prefetch: params.prefetch },
+    );
+  },
+  search: (params: SearchProductsRequest = {}, options?: RequestOptions) => {
+    isString(params.query, "query");
+    isNumber(params.page, "page");
+    isNumber(params.limit, "limit");
+
+    return request<ProductList>(
+      "GET",
+      "/v1/products/search",
+      undefined,
+      {
+        query: params.query,
+        page_number: params.page,
+        page_size: params.limit,
+      },
+      options,
+    );
+  },
+  searchAll: (
+    params: SearchProductsRequest & AutoPaginationOptions = {},
+    options?: RequestOptions,
+  ) => {
     isString(params.query, "query");
     isNumber(params.page, "page");
     isNumber(params.limit, "limit");
+    isNumber(params.prefetch, "prefetch");
 
-    return request<ProductList>("GET", "/v1/products/search", undefined, {
-      query: params.query,
-      page_number: params.page,
-      page_size: params.limit,
-    });
+    return paginate(
+      (page) =>
+        request<ProductList>(
+          "GET",
+          "/v1/products/search",
+          undefined,
+          {
+            query: params.query,
+            page_number: page,
+            page_size: params.limit,
+          },
+          options,
+        ),
+      { startPage: params.page, prefetch: params.prefetch },
+    );
   },
-  get: (params: GetProductRequest) => {
+  get: (params: GetProductRequest, options?: RequestOptions) => {
     required(params.productId, "productId");
     isString(params.productId, "productId");
 
-    return request<Product>("GET", "/v1/products", undefined, {
-      product_id: params.productId,
-    });
+    return request<Product>(
+      "GET",
+      "/v1/products",
+      undefined,
+      {
+        product_id: params.productId,
+      },
+      options,
+    );
   },
-  create: (params: CreateProductRequest) => {
+  create: (params: CreateProductRequest, options?: RequestOptions) => {
     required(params.name, "name");
     isString(params.name, "name");
     isString(params.imageUrl, "imageUrl");
@@ -67,19 +132,25 @@ export const productsResource = (request: RequestFn) => ({
     isArray(params.customField, "customField");
     isBoolean(params.abandonedCartRecoveryEnabled, "abandonedCartRecoveryEnabled");
 
-    return request<Product>("POST", "/v1/products", {
-      name: params.name,
-      description: params.description,
-      image_url: params.imageUrl,
-      price: params.price,
-      currency: params.currency,
-      billing_type: params.billingType,
-      billing_period: params.billingPeriod,
-      tax_mode: params.taxMode,
-      tax_category: params.taxCategory,
-      default_success_url: params.defaultSuccessUrl,
-      custom_field: params.customField,
-      abandoned_cart_recovery_enabled: params.abandonedCartRecoveryEnabled,
-    });
+    return request<Product>(
+      "POST",
+      "/v1/products",
+      {
+        name: params.name,
+        description: params.description,
+        image_url: params.imageUrl,
+        price: params.price,
+        currency: params.currency,
+        billing_type: params.billingType,
+        billing_period: params.billingPeriod,
+        tax_mode: params.taxMode,
+        tax_category: params.taxCategory,
+        default_success_url: params.defaultSuccessUrl,
+        custom_field: params.customField,
+        abandoned_cart_recovery_enabled: params.abandonedCartRecoveryEnabled,
+      },
+      undefined,
+      options,
+    );
   },
 });
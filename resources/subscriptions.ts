@@ -1,4 +1,4 @@
-import { RequestFn } from "../types/core";
+import { RequestFn, RequestOptions } from "../types/core";
 import {
   GetSubscriptionRequest,
   CancelSubscriptionRequest,
@@ -11,64 +11,100 @@ import {
 import { required, isString, isArray } from "../validate";
 
 export const subscriptionsResource = (request: RequestFn) => ({
-  get: (params: GetSubscriptionRequest) => {
+  get: (params: GetSubscriptionRequest, options?: RequestOptions) => {
     // TODO: Return object is not compatible with types. Check.
     required(params.subscriptionId, "subscriptionId");
     isString(params.subscriptionId, "subscriptionId");
 
-    return request<Subscription>("GET", "/v1/subscriptions", undefined, {
-      subscription_id: params.subscriptionId,
-    });
+    return request<Subscription>(
+      "GET",
+      "/v1/subscriptions",
+      undefined,
+      {
+        subscription_id: params.subscriptionId,
+      },
+      options,
+    );
   },
-  cancel: (params: CancelSubscriptionRequest) => {
+  cancel: (params: CancelSubscriptionRequest, options?: RequestOptions) => {
     // TODO: Return object is not compatible with types. Check.
     required(params.subscriptionId, "subscriptionId");
     isString(params.subscriptionId, "subscriptionId");
     isString(params.mode, "mode");
 
-    return request<Subscription>("POST", `/v1/subscriptions/${params.subscriptionId}/cancel`, {
-      mode: params.mode,
-    });
+    return request<Subscription>(
+      "POST",
+      `/v1/subscriptions/${params.subscriptionId}/cancel`,
+      {
+        mode: params.mode,
+      },
+      undefined,
+      options,
+    );
   },
-  update: (params: UpdateSubscriptionRequest) => {
+  update: (params: UpdateSubscriptionRequest, options?: RequestOptions) => {
     // Items || updateBehavior should be required. Check.
     required(params.subscriptionId, "subscriptionId");
     isString(params.subscriptionId, "subscriptionId");
     isArray(params.items, "items");
     isString(params.updateBehavior, "updateBehavior");
 
-    return request<Subscription>("POST", `/v1/subscriptions/${params.subscriptionId}`, {
-      items: params.items?.map((item) => ({
-        id: item.id,
-        product_id: item.productId,
-        price_id: item.priceId,
-        units: item.units,
-      })),
-      update_behavior: params.updateBehavior,
-    });
+    return request<Subscription>(
+      "POST",
+      `/v1/subscriptions/${params.subscriptionId}`,
+      {
+        items: params.items?.map((item) => ({
+          id: item.id,
+          product_id: item.productId,
+          price_id: item.priceId,
+          units: item.units,
+        })),
+        update_behavior: params.updateBehavior,
+      },
+      undefined,
+      options,
+    );
   },
-  upgrade: (params: UpgradeSubscriptionRequest) => {
+  upgrade: (params: UpgradeSubscriptionRequest, options?: RequestOptions) => {
     required(params.subscriptionId, "subscriptionId");
     isString(params.subscriptionId, "subscriptionId");
     required(params.productId, "productId");
     isString(params.productId, "productId");
     isString(params.updateBehavior, "updateBehavior");
 
-    return request<Subscription>("POST", `/v1/subscriptions/${params.subscriptionId}/upgrade`, {
-      product_id: params.productId,
-      update_behavior: params.updateBehavior,
-    });
+    return request<Subscription>(
+      "POST",
+      `/v1/subscriptions/${params.subscriptionId}/upgrade`,
+      {
+        product_id: params.productId,
+        update_behavior: params.updateBehavior,
+      },
+      undefined,
+      options,
+    );
   },
-  pause: (params: PauseSubscriptionRequest) => {
+  pause: (params: PauseSubscriptionRequest, options?: RequestOptions) => {
     required(params.subscriptionId, "subscriptionId");
     isString(params.subscriptionId, "subscriptionId");
 
-    return request<Subscription>("POST", `/v1/subscriptions/${params.subscriptionId}/pause`);
+    return request<Subscription>(
+      "POST",
+      `/v1/subscriptions/${params.subscriptionId}/pause`,
+      undefined,
+      undefined,
+      options,
+    );
   },
-  resume: (params: ResumeSubscriptionRequest) => {
+  resume: (params: ResumeSubscriptionRequest, options?: RequestOptions) => {
     required(params.subscriptionId, "subscriptionId");
     isString(params.subscriptionId, "subscriptionId");
 
-    return request<Subscription>("POST", `/v1/subscriptions/${params.subscriptionId}/resume`);
+    return request<Subscription>(
+      "POST",
+      `/v1/subscriptions/${params.subscriptionId}/resume`,
+      undefined,
+      undefined,
+      options,
+    );
   },
 });
@@ -1,23 +1,31 @@
-import { RequestFn } from "../types/core";
+import { RequestFn, RequestOptions } from "../types/core";
+import { paginate } from "../pagination";
 import {
   GetTransactionRequest,
   ListTransactionsRequest,
   SearchTransactionsRequest,
   Transaction,
   TransactionList,
+  AutoPaginationOptions,
 } from "../types";
 import { required, isString, isNumber } from "../validate";
 
 export const transactionsResource = (request: RequestFn) => ({
-  get: (params: GetTransactionRequest) => {
+  get: (params: GetTransactionRequest, options?: RequestOptions) => {
     required(params.transactionId, "transactionId");
     isString(params.transactionId, "transactionId");
 
-    return request<Transaction>("GET", "/v1/transactions", undefined, {
-      transaction_id: params.transactionId,
-    });
+    return request<Transaction>(
+      "GET",
+      "/v1/transactions",
+      undefined,
+      {
+        transaction_id: params.transactionId,
+      },
+      options,
+    );
   },
-  search: (params: SearchTransactionsRequest = {}) => {
+  search: (params: SearchTransactionsRequest = {}, options?: RequestOptions) => {
     isString(params.query, "query");
     isString(params.customerId, "customerId");
     isString(params.orderId, "orderId");
@@ -25,28 +33,100 @@ export const transactionsResource = (request: RequestFn) => ({
     isNumber(params.page, "page");
     isNumber(params.limit, "limit");
 
-    return request<TransactionList>("GET", "/v1/transactions/search", undefined, {
-      query: params.query,
-      customer_id: params.customerId,
-      order_id: params.orderId,
-      product_id: params.productId,
-      page_number: params.page,
-      page_size: params.limit,
-    });
+    return request<TransactionList>(
+      "GET",
+      "/v1/transactions/search",
+      undefined,
+      {
+        query: params.query,
+        customer_id: params.customerId,
+        order_id: params.orderId,
+        product_id: params.productId,
+        page_number: params.page,
+        page_size: params.limit,
+      },
+      options,
+    );
   },
-  list: (params: ListTransactionsRequest = {}) => {
+  searchAll: (
+    params: SearchTransactionsRequest & AutoPaginationOptions = {},
+    options?: RequestOptions,
+  ) => {
+    isString(params.query, "query");
+    isString(params.customerId, "customerId");
+    isString(params.orderId, "orderId");
+    isString(params.productId, "productId");
+    isNumber(params.page, "page");
+    isNumber(params.limit, "limit");
+    isNumber(params.prefetch, "prefetch");
+
+    return paginate(
+      (page) =>
+        request<TransactionList>(
+          "GET",
+          "/v1/transactions/search",
+          undefined,
+          {
+            query: params.query,
+            customer_id: params.customerId,
+            order_id: params.orderId,
+            product_id: params.productId,
+            page_number: page,
+            page_size: params.limit,
+          },
+          options,
+        ),
+      { startPage: params.page, prefetch: params.prefetch },
+    );
+  },
+  list: (params: ListTransactionsRequest = {}, options?: RequestOptions) => {
+    isString(params.customerId, "customerId");
+    isString(params.orderId, "orderId");
+    isString(params.productId, "productId");
+    isNumber(params.page, "page");
+    isNumber(params.limit, "limit");
+
+    return request<TransactionList>(
+      "GET",
+      "/v1/transactions/search",
+      undefined,
+      {
+        customer_id: params.customerId,
+        order_id: params.orderId,
+        product_id: params.productId,
+        page_number: params.page,
+        page_size: params.limit,
+      },
+      options,
+    );
+  },
+  listAll: (
+    params: ListTransactionsRequest & AutoPaginationOptions = {},
+    options?: RequestOptions,
+  ) => {
     isString(params.customerId, "customerId");
     isString(params.orderId, "orderId");
     isString(params.productId, "productId");
     isNumber(params.page, "page");
     isNumber(params.limit, "limit");
+    isNumber(params.prefetch, "prefetch");
 
-    return request<TransactionList>("GET", "/v1/transactions/search", undefined, {
-      customer_id: params.customerId,
-      order_id: params.orderId,
-      product_id: params.productId,
-      page_number: params.page,
-      page_size: params.limit,
-    });
+    return paginate(
+      (page) =>
+        request<TransactionList>(
+          "GET",
+          "/v1/transactions/search",
+          undefined,
+          {
+            customer_id: params.customerId,
+            order_id: params.orderId,
+            product_id: params.productId,
+            page_number: page,
+            page_size: params.limit,
+          },
+          options,
+        ),
+      { startPage: params.page, prefetch: params.prefetch },
+    );
   },
 });
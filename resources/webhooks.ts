@@ -1,19 +1,29 @@
-import crypto from "crypto";
 import {
   WebhookOptions,
   WebhookEvent,
-  CheckoutCompletedEvent,
-  RefundCreatedEvent,
-  DisputeCreatedEvent,
-  SubscriptionEvent,
   GrantAccessContext,
+  PurchaseRevokeAccessContext,
   RevokeAccessContext,
-  NormalizedCheckout,
-  NormalizedRefund,
-  NormalizedDispute,
-  NormalizedSubscription,
+  AccessPolicy,
+  WebhookConfig,
+  AnyWebhookEvent,
+  WebhookEventType,
+  WebhookEventPattern,
+  WebhookEventForPattern,
+  WebhookEventHandler,
+  WebhookHandleResult,
+  UnknownWebhookEvent,
 } from "../types/webhooks";
 import { toCamelCase } from "../utils";
+import { hydrateDates } from "../hydrate";
+import { WebhookPayload, hmacSha256Hex, timingSafeEqual, toText } from "../signature";
+import {
+  WebhookHandlerError,
+  WebhookHandlerFailure,
+  WebhookPayloadError,
+  WebhookSignatureError,
+  WebhookTimestampError,
+} from "../errors";
 
 /**
  * Type guard to check if an object is a webhook entity
@@ -37,7 +47,9 @@ function isWebhookEntity(obj: unknown): boolean {
 }
 
 /**
- * Type guard to check if an object is a webhook event
+ * Type guard to check if an object is a webhook event.
+ * Events of unknown types may carry entities the SDK does not know either,
+ * so they only need an object to reach `onUnknownEvent`.
  */
 function isWebhookEvent(obj: unknown): obj is WebhookEvent {
   if (!obj || typeof obj !== "object") return false;
@@ -47,7 +59,9 @@ function isWebhookEvent(obj: unknown): obj is WebhookEvent {
     typeof event.id === "string" &&
     typeof event.created_at === "number" &&
     "object" in event &&
-    isWebhookEntity(event.object)
+    (isKnownEventType(event.eventType)
+      ? isWebhookEntity(event.object)
+      : !!event.object && typeof event.object === "object")
   );
 }
 
@@ -55,56 +69,212 @@ function isWebhookEvent(obj: unknown): obj is WebhookEvent {
  * Parse and validate a webhook event from raw payload
  */
 function parseWebhookEvent(payload: string): WebhookEvent {
-  const event = JSON.parse(payload);
+  let event: unknown;
+  try {
+    event = JSON.parse(payload);
+  } catch (error) {
+    throw new WebhookPayloadError(`Invalid webhook payload: ${(error as Error).message}`);
+  }
   if (!isWebhookEvent(event)) {
-    throw new Error("Invalid webhook event structure");
+    throw new WebhookPayloadError();
   }
   return event;
 }
 
 /**
- * Generate HMAC SHA256 signature for webhook verification
+ * Verify webhook signature using constant-time comparison
  */
-function generateSignature(payload: string, secret: string): string {
-  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+async function verifySignature(
+  payload: WebhookPayload,
+  signature: string,
+  secret: string,
+): Promise<boolean> {
+  return timingSafeEqual(signature, await hmacSha256Hex(payload, secret));
 }
 
 /**
- * Verify webhook signature using constant-time comparison
+ * Index of the secret the signature was generated with, or -1 if none matches.
+ * Every secret is checked so the time taken does not depend on which one matched.
  */
-function verifySignature(payload: string, signature: string, secret: string): boolean {
-  const expectedSignature = generateSignature(payload, secret);
-  const signatureBuffer = Buffer.from(signature);
-  const expectedBuffer = Buffer.from(expectedSignature);
-
-  // Prevent timing attacks
-  if (signatureBuffer.length !== expectedBuffer.length) {
-    return false;
-  }
+async function matchSecret(
+  payload: WebhookPayload,
+  signature: string,
+  secrets: string[],
+): Promise<number> {
+  const results = await Promise.all(
+    secrets.map((secret) => verifySignature(payload, signature, secret)),
+  );
+  return results.indexOf(true);
+}
 
-  return crypto.timingSafeEqual(signatureBuffer, expectedBuffer);
+/**
+ * Reject events created outside the tolerance window around the current time.
+ * `created_at` may be epoch seconds or milliseconds.
+ */
+function checkTimestamp(event: WebhookEvent, config: WebhookConfig): void {
+  if (config.toleranceSeconds === undefined) return;
+
+  const createdAt = new Date(event.created_at < 1e12 ? event.created_at * 1000 : event.created_at);
+  const receivedAt = new Date((config.clock ?? Date.now)());
+
+  if (Math.abs(receivedAt.getTime() - createdAt.getTime()) > config.toleranceSeconds * 1000) {
+    throw new WebhookTimestampError(createdAt, receivedAt, config.toleranceSeconds);
+  }
 }
 
 /**
- * Convert snake_case webhook payload to camelCase for better DX
+ * Convert snake_case webhook payload to camelCase for better DX,
+ * turning entity timestamps into Date objects unless disabled
  */
-function normalizeWebhookData<T>(data: unknown): T {
-  return toCamelCase(data) as T;
+function normalizeWebhookData<T>(data: unknown, config: WebhookConfig): T {
+  const camelCased = toCamelCase(data);
+  return (config.hydrateDates === false ? camelCased : hydrateDates(camelCased)) as T;
 }
 
 /**
  * Creates a webhook resource for handling Creem webhooks
  */
-export const webhooksResource = (secret?: string) => {
+export const webhooksResource = (secret?: string | string[], config: WebhookConfig = {}) => {
+  // Several secrets can be active while rotating the secret in the Creem dashboard
+  const secrets = (typeof secret === "string" ? [secret] : (secret ?? [])).filter(Boolean);
+  const listeners: { pattern: string; handler: WebhookEventHandler }[] = [];
+  const policy: AccessPolicy = { ...DEFAULT_ACCESS_POLICY, ...config.accessPolicy };
+
+  const off = (pattern: string, handler: WebhookEventHandler) => {
+    const index = listeners.findIndex((l) => l.pattern === pattern && l.handler === handler);
+    if (index !== -1) listeners.splice(index, 1);
+  };
+
+  const verify = async (payload: WebhookPayload, signature: string): Promise<number> => {
+    if (secrets.length === 0) {
+      throw new Error("Webhook secret not configured. Pass `webhookSecret` to `createCreem`.");
+    }
+    return matchSecret(payload, signature, secrets);
+  };
+
+  /**
+   * Verify, parse and normalize an event, shared by `constructEvent` and `handleEvents`
+   */
+  const construct = async (payload: WebhookPayload, signature: string) => {
+    // 1. Verify signature over the raw body
+    const secretIndex = await verify(payload, signature);
+    if (secretIndex === -1) {
+      throw new WebhookSignatureError();
+    }
+
+    // 2. Parse and validate event
+    const event = parseWebhookEvent(toText(payload));
+
+    // 3. Reject stale or future-dated events (replay protection)
+    checkTimestamp(event, config);
+
+    // 4. Normalize data (convert snake_case to camelCase)
+    const fields = {
+      webhookEventType: event.eventType,
+      webhookId: event.id,
+      webhookCreatedAt: event.created_at,
+      ...normalizeWebhookData<object>(event.object, config),
+    };
+
+    return { event, fields, typedEvent: fields as AnyWebhookEvent, secretIndex };
+  };
+
   return {
+    /**
+     * Check that a payload was signed with the webhook secret (or one of them), without parsing it.
+     *
+     * @param payload - The raw request body. Do not pass parsed JSON.
+     * @param signature - The "creem-signature" request header.
+     * @throws {Error} If webhook secret is not configured.
+     */
+    verify: async (payload: WebhookPayload, signature: string): Promise<boolean> =>
+      (await verify(payload, signature)) !== -1,
+
+    /**
+     * Verify a payload and return the typed, camelCased event without running any handler,
+     * e.g. to enqueue it for processing by a background job.
+     * Event types added to the API after this SDK version are returned as an
+     * `UnknownWebhookEvent`; check `isKnownWebhookEvent` first, then narrow with `webhookEventType`.
+     *
+     * @param payload - The raw request body. Do not pass parsed JSON.
+     * @param signature - The "creem-signature" request header.
+     * @throws {WebhookSignatureError} If the signature is invalid.
+     * @throws {WebhookPayloadError} If the signed payload is not a valid webhook event.
+     * @throws {WebhookTimestampError} If `toleranceSeconds` is set and the event is outside it.
+     *
+     * @example
+     * const event = await creem.webhooks.constructEvent(payload, signature);
+     * if (isKnownWebhookEvent(event) && event.webhookEventType === "subscription.paid") {
+     *   await queue.add("subscription-paid", { subscriptionId: event.id });
+     * }
+     */
+    constructEvent: async (
+      payload: WebhookPayload,
+      signature: string,
+    ): Promise<AnyWebhookEvent | UnknownWebhookEvent> => {
+      const { event, fields, typedEvent } = await construct(payload, signature);
+      return isKnownEventType(event.eventType) ? typedEvent : fields;
+    },
+
+    /**
+     * Register a listener for an event type, or for every type with a prefix ("subscription.*").
+     * Listeners run on every `handleEvents` call, after the handlers passed to that call.
+     *
+     * @returns A function that removes the listener.
+     *
+     * @example
+     * creem.webhooks.on("subscription.paid", async (event) => {
+     *   console.log(`${event.customer.email} paid until ${event.currentPeriodEndDate}`);
+     * });
+     */
+    on: <P extends WebhookEventPattern>(
+      pattern: P,
+      handler: WebhookEventHandler<WebhookEventForPattern<P>>,
+    ): (() => void) => {
+      const listener = { pattern, handler: handler as WebhookEventHandler };
+      listeners.push(listener);
+      return () => off(listener.pattern, listener.handler);
+    },
+
+    /**
+     * Register a listener for every known event type.
+     *
+     * @returns A function that removes the listener.
+     */
+    onAny: (handler: WebhookEventHandler): (() => void) => {
+      listeners.push({ pattern: "*", handler });
+      return () => off("*", handler);
+    },
+
+    /**
+     * Remove a listener registered with `on`
+     */
+    off: <P extends WebhookEventPattern>(
+      pattern: P,
+      handler: WebhookEventHandler<WebhookEventForPattern<P>>,
+    ): void => off(pattern, handler as WebhookEventHandler),
+
+    /**
+     * Remove a listener registered with `onAny`
+     */
+    offAny: (handler: WebhookEventHandler): void => off("*", handler),
+
     /**
      * Handle incoming webhook events with signature verification.
      * Framework-agnostic - works with Express, Next.js, Fastify, etc.
      *
-     * @param payload - The raw request body (string or Buffer). Do not pass parsed JSON.
+     * @param payload - The raw request body (string, Buffer, Uint8Array or ArrayBuffer). Do not pass parsed JSON.
      * @param signature - The signature from the request headers (typically "creem-signature").
-     * @param handlers - An object mapping event handlers.
-     * @throws {Error} If webhook secret is not configured or signature is invalid.
+     * @param handlers - An object mapping event handlers. Optional when listeners are registered with `on`.
+     * @returns The event id and type, the index of the webhook secret that matched, and whether
+     *   the event was skipped as a duplicate.
+     * @throws {Error} If webhook secret is not configured.
+     * @throws {WebhookSignatureError} If the signature is invalid.
+     * @throws {WebhookPayloadError} If the signed payload is not a valid webhook event.
+     * @throws {WebhookTimestampError} If `toleranceSeconds` is set and the event is outside it.
+     * @throws {WebhookHandlerError} If a handler or listener throws, listing the failed handlers.
+     * @throws {Error} If an `idempotencyStore` reports the event is already being processed.
+     *   Already processed events are skipped without calling any handler.
      *
      * @example
      * // Next.js App Router
@@ -146,218 +316,224 @@ export const webhooksResource = (secret?: string) => {
      * });
      */
     handleEvents: async (
-      payload: string | Buffer,
+      payload: WebhookPayload,
       signature: string,
-      handlers: Omit<WebhookOptions, "webhookSecret">,
-    ): Promise<void> => {
-      // 1. Validate webhook secret
-      if (!secret) {
-        throw new Error("Webhook secret not configured. Pass `webhookSecret` to `createCreem`.");
+      handlers: Omit<WebhookOptions, "webhookSecret"> = {},
+    ): Promise<WebhookHandleResult> => {
+      const { event, fields, typedEvent, secretIndex } = await construct(payload, signature);
+      const result: WebhookHandleResult = {
+        eventId: event.id,
+        eventType: event.eventType,
+        secretIndex,
+        duplicate: false,
+      };
+
+      // 5. Skip events that were already processed
+      const store = config.idempotencyStore;
+      if (store) {
+        if (await store.has(event.id)) return { ...result, duplicate: true };
+        if (!(await store.markProcessing(event.id))) {
+          throw new Error(`Webhook event ${event.id} is already being processed`);
+        }
       }
 
-      // 2. Convert payload to string
-      const payloadString = typeof payload === "string" ? payload : payload.toString("utf8");
-
-      // 3. Verify signature
-      if (!verifySignature(payloadString, signature, secret)) {
-        throw new Error("Invalid webhook signature");
+      // 6. Run the handlers and listeners, releasing the claim if one fails
+      const calls = isKnownEventType(event.eventType)
+        ? [...handlerCalls(typedEvent, handlers, policy), ...listenerCalls(typedEvent, listeners)]
+        : [
+            {
+              name: "onUnknownEvent",
+              run: () => handlers.onUnknownEvent?.(fields),
+            },
+          ];
+
+      try {
+        await runHandlers(calls, event, handlers, config.handlerErrorMode ?? "fail-fast");
+      } catch (error) {
+        await store?.release(event.id);
+        throw error;
       }
+      await store?.markDone(event.id);
+      return result;
+    },
+  };
+};
 
-      // 4. Parse and validate event
-      const event = parseWebhookEvent(payloadString);
-
-      // 5. Normalize data (convert snake_case to camelCase)
-      const normalizedObject = normalizeWebhookData(event.object);
-
-      // 6. Route to appropriate handler
-      switch (event.eventType) {
-        case "checkout.completed": {
-          const checkoutData = normalizedObject as NormalizedCheckout;
-          await handlers.onCheckoutCompleted?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...checkoutData,
-          } as CheckoutCompletedEvent);
-          break;
-        }
-
-        case "refund.created": {
-          const refundData = normalizedObject as NormalizedRefund;
-          await handlers.onRefundCreated?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...refundData,
-          } as RefundCreatedEvent);
-          break;
-        }
-
-        case "dispute.created": {
-          const disputeData = normalizedObject as NormalizedDispute;
-          await handlers.onDisputeCreated?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...disputeData,
-          } as DisputeCreatedEvent);
-          break;
-        }
-
-        case "subscription.active": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-
-          // Call onGrantAccess first
-          await handlers.onGrantAccess?.({
-            reason: "subscription_active",
-            ...subscriptionData,
-          } as GrantAccessContext);
-
-          // Then call the specific event handler
-          await handlers.onSubscriptionActive?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.active">);
-          break;
-        }
+/**
+ * `WebhookOptions` handler called for each event type
+ */
+const EVENT_HANDLERS: Record<WebhookEventType, EventHandlerName> = {
+  "checkout.completed": "onCheckoutCompleted",
+  "refund.created": "onRefundCreated",
+  "dispute.created": "onDisputeCreated",
+  "subscription.active": "onSubscriptionActive",
+  "subscription.trialing": "onSubscriptionTrialing",
+  "subscription.canceled": "onSubscriptionCanceled",
+  "subscription.paid": "onSubscriptionPaid",
+  "subscription.expired": "onSubscriptionExpired",
+  "subscription.unpaid": "onSubscriptionUnpaid",
+  "subscription.update": "onSubscriptionUpdate",
+  "subscription.past_due": "onSubscriptionPastDue",
+  "subscription.paused": "onSubscriptionPaused",
+  "subscription.scheduled_cancel": "onSubscriptionScheduledCancel",
+};
 
-        case "subscription.trialing": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-
-          // Call onGrantAccess first
-          await handlers.onGrantAccess?.({
-            reason: "subscription_trialing",
-            ...subscriptionData,
-          } as GrantAccessContext);
-
-          // Then call the specific event handler
-          await handlers.onSubscriptionTrialing?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.trialing">);
-          break;
-        }
+type EventHandlerName = Exclude<
+  keyof WebhookOptions,
+  | "webhookSecret"
+  | "onGrantAccess"
+  | "onRevokeAccess"
+  | "onRevokeAccessForPurchase"
+  | "onUnknownEvent"
+  | "onHandlerError"
+>;
 
-        case "subscription.paid": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-
-          // Call onGrantAccess first
-          await handlers.onGrantAccess?.({
-            reason: "subscription_paid",
-            ...subscriptionData,
-          } as GrantAccessContext);
-
-          // Then call the specific event handler
-          await handlers.onSubscriptionPaid?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.paid">);
-          break;
-        }
+/**
+ * Access hook called for each event unless overridden by `accessPolicy`
+ */
+export const DEFAULT_ACCESS_POLICY: Readonly<AccessPolicy> = {
+  "subscription.active": "grant",
+  "subscription.trialing": "grant",
+  "subscription.paid": "grant",
+  "subscription.paused": "revoke",
+  "subscription.expired": "revoke",
+};
 
-        case "subscription.paused": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-
-          // Call onRevokeAccess first
-          await handlers.onRevokeAccess?.({
-            reason: "subscription_paused",
-            ...subscriptionData,
-          } as RevokeAccessContext);
-
-          // Then call the specific event handler
-          await handlers.onSubscriptionPaused?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.paused">);
-          break;
-        }
+function isKnownEventType(eventType: string): eventType is WebhookEventType {
+  return Object.prototype.hasOwnProperty.call(EVENT_HANDLERS, eventType);
+}
 
-        case "subscription.expired": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-
-          // Call onRevokeAccess first
-          await handlers.onRevokeAccess?.({
-            reason: "subscription_expired",
-            ...subscriptionData,
-          } as RevokeAccessContext);
-
-          // Then call the specific event handler
-          await handlers.onSubscriptionExpired?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.expired">);
-          break;
-        }
+/**
+ * Whether an event returned by `constructEvent` has a type this SDK version knows,
+ * narrowing it to `AnyWebhookEvent` so `webhookEventType` discriminates the payload
+ *
+ * @example
+ * const event = await creem.webhooks.constructEvent(payload, signature);
+ * if (!isKnownWebhookEvent(event)) {
+ *   logger.warn(`Unhandled Creem event ${event.webhookEventType}`);
+ * } else if (event.webhookEventType === "subscription.paid") {
+ *   await queue.add("subscription-paid", { subscriptionId: event.id });
+ * }
+ */
+export function isKnownWebhookEvent(
+  event: AnyWebhookEvent | UnknownWebhookEvent,
+): event is AnyWebhookEvent {
+  return isKnownEventType(event.webhookEventType);
+}
 
-        case "subscription.canceled": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-          await handlers.onSubscriptionCanceled?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.canceled">);
-          break;
-        }
+/**
+ * Whether a listener pattern matches an event type. "*" matches everything.
+ */
+function matchesPattern(pattern: string, eventType: string): boolean {
+  if (pattern === "*" || pattern === eventType) return true;
+  return pattern.endsWith(".*") && eventType.startsWith(pattern.slice(0, -1));
+}
 
-        case "subscription.unpaid": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-          await handlers.onSubscriptionUnpaid?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.unpaid">);
-          break;
-        }
+interface HandlerCall {
+  name: string;
+  run: () => void | Promise<void>;
+}
 
-        case "subscription.update": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-          await handlers.onSubscriptionUpdate?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.update">);
-          break;
-        }
+/**
+ * The access hook and event handler for an event, in the order they run
+ */
+function handlerCalls(
+  event: AnyWebhookEvent,
+  handlers: Omit<WebhookOptions, "webhookSecret">,
+  policy: AccessPolicy,
+): HandlerCall[] {
+  const { webhookEventType: type, webhookId, webhookCreatedAt, ...data } = event;
+  const calls: HandlerCall[] = [];
+  const action = policy[type as keyof AccessPolicy];
+  // "subscription.past_due" -> "subscription_past_due"
+  const reason = type.replace(".", "_");
+
+  if (action === "grant" && handlers.onGrantAccess) {
+    const { onGrantAccess } = handlers;
+    calls.push({
+      name: "onGrantAccess",
+      run: () => onGrantAccess({ reason, ...data } as GrantAccessContext),
+    });
+  }
+  if (action === "revoke" && type.startsWith("subscription.") && handlers.onRevokeAccess) {
+    const { onRevokeAccess } = handlers;
+    calls.push({
+      name: "onRevokeAccess",
+      run: () => onRevokeAccess({ reason, ...data } as RevokeAccessContext),
+    });
+  }
+  if (
+    action === "revoke" &&
+    !type.startsWith("subscription.") &&
+    handlers.onRevokeAccessForPurchase
+  ) {
+    const { onRevokeAccessForPurchase } = handlers;
+    calls.push({
+      name: "onRevokeAccessForPurchase",
+      // Refunds and disputes carry their own `reason`, so they are nested instead of flattened
+      run: () =>
+        onRevokeAccessForPurchase({
+          reason,
+          [type.split(".")[0]]: data,
+        } as PurchaseRevokeAccessContext),
+    });
+  }
 
-        case "subscription.past_due": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-          await handlers.onSubscriptionPastDue?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.past_due">);
-          break;
-        }
+  const name = EVENT_HANDLERS[type];
+  const handler = handlers[name] as WebhookEventHandler | undefined;
+  if (handler) {
+    calls.push({ name, run: () => handler(event) });
+  }
+  return calls;
+}
 
-        case "subscription.scheduled_cancel": {
-          const subscriptionData = normalizedObject as NormalizedSubscription;
-          await handlers.onSubscriptionScheduledCancel?.({
-            webhookEventType: event.eventType,
-            webhookId: event.id,
-            webhookCreatedAt: event.created_at,
-            ...subscriptionData,
-          } as SubscriptionEvent<"subscription.scheduled_cancel">);
-          break;
-        }
+/**
+ * The listeners matching an event, in registration order
+ */
+function listenerCalls(
+  event: AnyWebhookEvent,
+  listeners: { pattern: string; handler: WebhookEventHandler }[],
+): HandlerCall[] {
+  return listeners
+    .filter(({ pattern }) => matchesPattern(pattern, event.webhookEventType))
+    .map(({ pattern, handler }) => ({
+      name: pattern === "*" ? "onAny" : `on("${pattern}")`,
+      run: () => handler(event),
+    }));
+}
 
-        default:
-          // Unknown event type - silently ignore
-          break;
+/**
+ * Run handlers in order, reporting each failure to `onHandlerError`.
+ * "fail-fast" stops at the first failure, "run-all" runs every handler.
+ * An error thrown by `onHandlerError` itself is recorded as a failure of its own.
+ */
+async function runHandlers(
+  calls: HandlerCall[],
+  event: WebhookEvent,
+  handlers: Omit<WebhookOptions, "webhookSecret">,
+  mode: "fail-fast" | "run-all",
+): Promise<void> {
+  const failures: WebhookHandlerFailure[] = [];
+
+  for (const { name, run } of calls) {
+    try {
+      await run();
+    } catch (error) {
+      failures.push({ handler: name, error });
+      try {
+        await handlers.onHandlerError?.(error, {
+          handler: name,
+          eventType: event.eventType,
+          eventId: event.id,
+        });
+      } catch (reportError) {
+        failures.push({ handler: "onHandlerError", error: reportError });
       }
-    },
-  };
-};
+      if (mode === "fail-fast") break;
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new WebhookHandlerError(event.eventType, event.id, failures);
+  }
+}
@@ -0,0 +1,456 @@
+import { HttpMethod } from "./types/core";
+
+/**
+ * Minimal runtime description of a response type
+ */
+export interface Schema {
+  type:
+    | "string"
+    | "number"
+    | "boolean"
+    | "date"
+    | "enum"
+    | "object"
+    | "array"
+    | "union"
+    | "unknown";
+  /** Allowed values for `enum` */
+  values?: readonly (string | number)[];
+  /** Properties of an `object` */
+  fields?: Record<string, Schema>;
+  /** Item schema of an `array` */
+  items?: Schema;
+  /** Alternatives of a `union` */
+  options?: Schema[];
+  /** The property may be absent */
+  optional?: boolean;
+  /** The value may be null */
+  nullable?: boolean;
+}
+
+/**
+ * A single difference between a response and its declared type
+ */
+export interface SchemaDriftIssue {
+  /** Location of the value, e.g. "items[0].product.status" */
+  path: string;
+  /** `missing` required field, `unexpected` undeclared field, or `type` mismatch */
+  kind: "missing" | "unexpected" | "type";
+  /** The declared type, for `type` issues */
+  expected?: string;
+  /** The received value's type, for `type` issues */
+  received?: string;
+}
+
+/**
+ * Differences found between an API response and its declared type
+ */
+export interface SchemaDriftReport {
+  /** HTTP method of the request */
+  method: HttpMethod;
+  /** Request path */
+  path: string;
+  /** Name of the declared response type, e.g. "Product" */
+  schema: string;
+  /** The individual differences */
+  issues: SchemaDriftIssue[];
+}
+
+// ── Schema builders ───────────────────────────────────────────────
+
+const string = (): Schema => ({ type: "string" });
+const number = (): Schema => ({ type: "number" });
+const boolean = (): Schema => ({ type: "boolean" });
+const date = (): Schema => ({ type: "date" });
+const unknown = (): Schema => ({ type: "unknown" });
+const enumOf = (...values: (string | number)[]): Schema => ({ type: "enum", values });
+const object = (fields: Record<string, Schema>): Schema => ({ type: "object", fields });
+const array = (items: Schema): Schema => ({ type: "array", items });
+const union = (...options: Schema[]): Schema => ({ type: "union", options });
+const optional = (schema: Schema): Schema => ({ ...schema, optional: true });
+const nullable = (schema: Schema): Schema => ({ ...schema, nullable: true });
+
+// ── Entity schemas ────────────────────────────────────────────────
+
+const mode = enumOf("test", "prod", "sandbox");
+// Metadata is free-form, so its keys are never reported as unexpected
+const metadata = unknown();
+
+const pagination = object({
+  totalRecords: number(),
+  totalPages: number(),
+  currentPage: number(),
+  nextPage: nullable(number()),
+  prevPage: nullable(number()),
+});
+
+const feature = object({
+  id: string(),
+  type: enumOf("custom", "file", "licenseKey"),
+  description: string(),
+});
+
+const product = object({
+  id: string(),
+  mode,
+  object: enumOf("product"),
+  name: string(),
+  description: string(),
+  imageUrl: optional(nullable(string())),
+  features: optional(array(feature)),
+  price: number(),
+  currency: string(),
+  billingType: enumOf("recurring", "onetime"),
+  billingPeriod: enumOf(
+    "every-month",
+    "every-three-months",
+    "every-six-months",
+    "every-year",
+    "once",
+  ),
+  status: enumOf("active", "archived"),
+  taxMode: enumOf("inclusive", "exclusive"),
+  taxCategory: enumOf("saas", "digital-goods-service", "ebooks"),
+  productUrl: optional(string()),
+  defaultSuccessUrl: optional(nullable(string())),
+  createdAt: date(),
+  updatedAt: date(),
+});
+
+const customer = object({
+  id: string(),
+  mode,
+  object: enumOf("customer"),
+  email: string(),
+  name: optional(nullable(string())),
+  country: string(),
+  createdAt: date(),
+  updatedAt: date(),
+});
+
+const transaction = object({
+  id: string(),
+  mode,
+  object: enumOf("transaction"),
+  amount: number(),
+  amountPaid: optional(number()),
+  discountAmount: optional(number()),
+  currency: string(),
+  type: enumOf("payment", "invoice"),
+  taxCountry: optional(string()),
+  taxAmount: optional(number()),
+  status: enumOf(
+    "pending",
+    "paid",
+    "refunded",
+    "partialRefund",
+    "chargedBack",
+    "uncollectible",
+    "declined",
+    "void",
+  ),
+  refundedAmount: optional(nullable(number())),
+  order: optional(string()),
+  subscription: optional(string()),
+  customer: optional(string()),
+  description: optional(string()),
+  periodStart: optional(date()),
+  periodEnd: optional(date()),
+  createdAt: date(),
+});
+
+const order = object({
+  id: string(),
+  mode,
+  object: enumOf("order"),
+  customer: optional(string()),
+  product: string(),
+  transaction: optional(string()),
+  discount: optional(string()),
+  amount: number(),
+  subTotal: optional(number()),
+  taxAmount: optional(number()),
+  discountAmount: optional(number()),
+  amountDue: optional(number()),
+  amountPaid: optional(number()),
+  currency: string(),
+  fxAmount: optional(number()),
+  fxCurrency: optional(string()),
+  fxRate: optional(number()),
+  status: enumOf("pending", "paid"),
+  type: enumOf("recurring", "onetime"),
+  affiliate: optional(nullable(string())),
+  createdAt: date(),
+  updatedAt: date(),
+});
+
+const licenseInstance = object({
+  id: string(),
+  mode,
+  object: enumOf("license-instance"),
+  name: string(),
+  status: enumOf("active", "deactivated"),
+  createdAt: date(),
+});
+
+const license = object({
+  id: string(),
+  mode,
+  object: enumOf("license"),
+  status: enumOf("inactive", "active", "expired", "disabled"),
+  key: string(),
+  activation: number(),
+  activationLimit: nullable(number()),
+  expiresAt: nullable(date()),
+  createdAt: date(),
+  instance: optional(nullable(licenseInstance)),
+});
+
+const subscriptionItem = object({
+  id: string(),
+  mode,
+  object: enumOf("subscription_item"),
+  productId: optional(string()),
+  priceId: optional(string()),
+  units: optional(number()),
+});
+
+const subscription = object({
+  id: string(),
+  mode,
+  object: enumOf("subscription"),
+  product: union(product, string()),
+  customer: union(customer, string()),
+  items: optional(array(subscriptionItem)),
+  collectionMethod: enumOf("charge_automatically"),
+  status: enumOf("active", "canceled", "unpaid", "paused", "trialing", "scheduled_cancel"),
+  lastTransactionId: optional(string()),
+  lastTransaction: optional(transaction),
+  lastTransactionDate: optional(date()),
+  nextTransactionDate: optional(date()),
+  currentPeriodStartDate: date(),
+  currentPeriodEndDate: date(),
+  canceledAt: nullable(date()),
+  createdAt: date(),
+  updatedAt: date(),
+  discount: optional(unknown()),
+  metadata: optional(metadata),
+});
+
+const customField = object({
+  type: enumOf("text", "checkbox"),
+  key: string(),
+  label: string(),
+  optional: optional(boolean()),
+  text: optional(unknown()),
+  checkbox: optional(unknown()),
+});
+
+const productFeature = object({
+  id: optional(nullable(string())),
+  description: optional(nullable(string())),
+  type: optional(nullable(enumOf("custom", "file", "licenseKey"))),
+  privateNote: optional(nullable(string())),
+  file: optional(nullable(unknown())),
+  licenseKey: optional(nullable(license)),
+  license: optional(nullable(license)),
+});
+
+const checkout = object({
+  id: string(),
+  mode,
+  object: enumOf("checkout"),
+  status: enumOf("pending", "processing", "completed", "expired"),
+  requestId: optional(string()),
+  product: union(product, string()),
+  units: number(),
+  order: optional(order),
+  subscription: optional(union(subscription, string())),
+  customer: optional(union(customer, string())),
+  customFields: optional(array(customField)),
+  checkoutUrl: optional(string()),
+  successUrl: optional(nullable(string())),
+  feature: optional(array(productFeature)),
+  metadata: optional(metadata),
+});
+
+const discount = object({
+  id: string(),
+  mode,
+  object: string(),
+  status: enumOf("active", "draft", "expired", "scheduled"),
+  name: string(),
+  code: string(),
+  type: enumOf("percentage", "fixed"),
+  amount: optional(number()),
+  currency: optional(string()),
+  percentage: optional(number()),
+  expiryDate: optional(string()),
+  maxRedemptions: optional(number()),
+  duration: optional(enumOf("forever", "once", "repeating")),
+  durationInMonths: optional(number()),
+  appliesToProducts: optional(array(string())),
+  redeemCount: optional(number()),
+});
+
+const statsSummary = object({
+  totals: object({
+    totalProducts: number(),
+    totalSubscriptions: number(),
+    totalCustomers: number(),
+    totalPayments: number(),
+    activeSubscriptions: number(),
+    totalRevenue: number(),
+    totalNetRevenue: number(),
+    netMonthlyRecurringRevenue: number(),
+    monthlyRecurringRevenue: number(),
+  }),
+  periods: optional(
+    array(
+      object({
+        timestamp: number(),
+        grossRevenue: number(),
+        netRevenue: number(),
+      }),
+    ),
+  ),
+});
+
+const list = (items: Schema): Schema => object({ items: array(items), pagination });
+
+/**
+ * Response schemas by name, matching the exported response types
+ */
+export const schemas = {
+  Product: product,
+  ProductList: list(product),
+  Customer: customer,
+  CustomerList: list(customer),
+  CustomerLinks: object({ customerPortalLink: string() }),
+  Checkout: checkout,
+  Subscription: subscription,
+  Transaction: transaction,
+  TransactionList: list(transaction),
+  License: license,
+  Discount: discount,
+  StatsSummary: statsSummary,
+};
+
+type SchemaName = keyof typeof schemas;
+
+/**
+ * Declared response type per endpoint
+ */
+const ENDPOINTS: [HttpMethod, RegExp, SchemaName][] = [
+  ["GET", /^\/v1\/products$/, "Product"],
+  ["POST", /^\/v1\/products$/, "Product"],
+  ["GET", /^\/v1\/products\/search$/, "ProductList"],
+  ["GET", /^\/v1\/checkouts$/, "Checkout"],
+  ["POST", /^\/v1\/checkouts$/, "Checkout"],
+  ["GET", /^\/v1\/customers$/, "Customer"],
+  ["GET", /^\/v1\/customers\/list$/, "CustomerList"],
+  ["POST", /^\/v1\/customers\/billing$/, "CustomerLinks"],
+  ["GET", /^\/v1\/subscriptions$/, "Subscription"],
+  ["POST", /^\/v1\/subscriptions\/[^/]+(\/(cancel|upgrade|pause|resume))?$/, "Subscription"],
+  ["GET", /^\/v1\/transactions$/, "Transaction"],
+  ["GET", /^\/v1\/transactions\/search$/, "TransactionList"],
+  ["POST", /^\/v1\/licenses\/(activate|deactivate|validate)$/, "License"],
+  ["GET", /^\/v1\/discounts$/, "Discount"],
+  ["POST", /^\/v1\/discounts$/, "Discount"],
+  ["DELETE", /^\/v1\/discounts\/[^/]+\/delete$/, "Discount"],
+  ["GET", /^\/v1\/stats\/summary$/, "StatsSummary"],
+];
+
+/**
+ * Compare a camelCased response with the declared type of its endpoint.
+ * Returns undefined when the endpoint is unknown or the response matches.
+ */
+export function validateResponse(
+  method: HttpMethod,
+  path: string,
+  data: unknown,
+): SchemaDriftReport | undefined {
+  const endpoint = ENDPOINTS.find(([m, pattern]) => m === method && pattern.test(path));
+  if (!endpoint) return undefined;
+
+  const name = endpoint[2];
+  const issues = checkValue(schemas[name], data, "");
+  return issues.length > 0 ? { method, path, schema: name, issues } : undefined;
+}
+
+/**
+ * Collect the differences between a value and a schema
+ */
+export function checkValue(schema: Schema, value: unknown, path: string): SchemaDriftIssue[] {
+  if (value === null) {
+    return schema.nullable || schema.type === "unknown"
+      ? []
+      : [{ path, kind: "type", expected: describe(schema), received: "null" }];
+  }
+
+  switch (schema.type) {
+    case "unknown":
+      return [];
+    case "string":
+    case "number":
+    case "boolean":
+      return typeof value === schema.type ? [] : [mismatch(schema, value, path)];
+    case "date":
+      // Hydrated into a Date, or the raw string/epoch when hydration is disabled
+      return value instanceof Date || typeof value === "string" || typeof value === "number"
+        ? []
+        : [mismatch(schema, value, path)];
+    case "enum":
+      return schema.values!.includes(value as string | number)
+        ? []
+        : [mismatch(schema, value, path)];
+    case "array":
+      return Array.isArray(value)
+        ? value.flatMap((item, i) => checkValue(schema.items!, item, `${path}[${i}]`))
+        : [mismatch(schema, value, path)];
+    case "union": {
+      const results = schema.options!.map((option) => checkValue(option, value, path));
+      if (results.some((issues) => issues.length === 0)) return [];
+      // Report against the alternative with the fewest differences
+      return results.reduce((best, issues) => (issues.length < best.length ? issues : best));
+    }
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value) || value instanceof Date) {
+        return [mismatch(schema, value, path)];
+      }
+      const record = value as Record<string, unknown>;
+      const fields = schema.fields!;
+      const issues: SchemaDriftIssue[] = [];
+
+      for (const [key, field] of Object.entries(fields)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (record[key] === undefined) {
+          if (!field.optional) issues.push({ path: fieldPath, kind: "missing" });
+        } else {
+          issues.push(...checkValue(field, record[key], fieldPath));
+        }
+      }
+      for (const key of Object.keys(record)) {
+        if (!(key in fields)) {
+          issues.push({ path: path ? `${path}.${key}` : key, kind: "unexpected" });
+        }
+      }
+      return issues;
+    }
+  }
+}
+
+function mismatch(schema: Schema, value: unknown, path: string): SchemaDriftIssue {
+  return {
+    path,
+    kind: "type",
+    expected: describe(schema),
+    received: Array.isArray(value) ? "array" : typeof value,
+  };
+}
+
+function describe(schema: Schema): string {
+  if (schema.type === "enum") return schema.values!.map((v) => JSON.stringify(v)).join(" | ");
+  if (schema.type === "union") return schema.options!.map(describe).join(" | ");
+  return schema.type;
+}
@@ -0,0 +1,59 @@
+/**
+ * Raw webhook body, as read from the request
+ */
+export type WebhookPayload = string | Uint8Array | ArrayBuffer;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encode a payload as UTF-8 bytes
+ */
+export function toBytes(payload: WebhookPayload): Uint8Array {
+  if (typeof payload === "string") return encoder.encode(payload);
+  return payload instanceof Uint8Array ? payload : new Uint8Array(payload);
+}
+
+/**
+ * Decode a payload as UTF-8 text
+ */
+export function toText(payload: WebhookPayload): string {
+  return typeof payload === "string" ? payload : decoder.decode(payload);
+}
+
+/**
+ * Hex-encoded HMAC SHA256 of a payload.
+ * Uses Web Crypto where available (edge runtimes, Deno, Bun, Node 19+) and falls back to
+ * Node's `crypto` module on older Node versions.
+ */
+export async function hmacSha256Hex(payload: WebhookPayload, secret: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+
+  if (subtle) {
+    const key = await subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    const signature = await subtle.sign("HMAC", key, toBytes(payload));
+    return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+  }
+
+  const { createHmac } = await import("crypto");
+  return createHmac("sha256", secret).update(toBytes(payload)).digest("hex");
+}
+
+/**
+ * Compare two strings in time that depends only on their length, preventing timing attacks
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
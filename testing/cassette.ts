@@ -0,0 +1,223 @@
+import type { NonRetryableError } from "../errors";
+import { FetchFn, HttpMethod } from "../types/core";
+
+/**
+ * "record" sends requests to the API and saves the exchanges; "replay" answers from the saved file
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * A request and the response the API returned for it
+ */
+export interface CassetteInteraction {
+  request: {
+    method: HttpMethod;
+    /** Request path, e.g. "/v1/products" */
+    path: string;
+    /** Query parameters, as sent to the API */
+    query: Record<string, string>;
+    /** Parsed JSON body, or null */
+    body: unknown;
+  };
+  response: {
+    status: number;
+    /** Parsed JSON body, the raw text when it is not JSON, or null for empty responses */
+    body: unknown;
+  };
+}
+
+/**
+ * Contents of a cassette file
+ */
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteOptions {
+  /** Path of the JSON cassette file */
+  path: string;
+  /** Record exchanges with the API, or replay them from the file */
+  mode: CassetteMode;
+  /** `fetch` used to reach the API when recording. Defaults to the global `fetch` */
+  fetch?: FetchFn;
+  /**
+   * Other secrets to replace with "[REDACTED]" before saving, e.g. license keys.
+   * The API key sent in `x-api-key` is always redacted.
+   */
+  redact?: (string | RegExp)[];
+}
+
+export interface Cassette {
+  /** Pass it as the `fetch` option of `createCreem` */
+  fetch: FetchFn;
+  /** Interactions recorded, or loaded for replay */
+  interactions: CassetteInteraction[];
+  /** Interactions not replayed yet. Empty when recording */
+  pending(): CassetteInteraction[];
+}
+
+/**
+ * Thrown in replay mode when the cassette cannot answer a request: the file is missing,
+ * or no unplayed interaction matches. It is marked `retryable: false`, so requests fail right away.
+ */
+export class CassetteError extends Error implements NonRetryableError {
+  readonly retryable = false;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteError";
+  }
+}
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Record exchanges with the Creem API to a JSON cassette file and replay them in later runs,
+ * to test against real API responses without credentials or network.
+ *
+ * When recording, every request goes to the API and the cassette file is rewritten after each
+ * response, with the API key redacted. When replaying, each request is answered by the first
+ * unplayed interaction with the same method, path, query and body; a request with no match
+ * throws a `CassetteError` naming it, without being retried.
+ *
+ * @example
+ * const cassette = createCassette({
+ *   path: "__cassettes__/products.json",
+ *   mode: process.env.CREEM_API_KEY ? "record" : "replay",
+ * });
+ * const creem = createCreem({
+ *   apiKey: process.env.CREEM_API_KEY ?? "creem_test_replay",
+ *   testMode: true,
+ *   fetch: cassette.fetch,
+ * });
+ */
+export function createCassette(options: CassetteOptions): Cassette {
+  const interactions: CassetteInteraction[] = [];
+  const played = new Set<CassetteInteraction>();
+  let loaded: Promise<void> | undefined;
+  let writes: Promise<void> = Promise.resolve();
+
+  // The API key of the request, then the configured secrets
+  const secretsOf = (init: RequestInit) => {
+    const apiKey = new Headers(init.headers).get("x-api-key");
+    return [...(apiKey ? [apiKey] : []), ...(options.redact ?? [])];
+  };
+
+  const load = async () => {
+    const { readFile } = await import("node:fs/promises");
+    const text = await readFile(options.path, "utf8").catch((error) => {
+      throw new CassetteError(
+        `Cannot read cassette ${options.path}, record it first: ${error.message}`,
+      );
+    });
+    interactions.push(...(JSON.parse(text) as CassetteFile).interactions);
+  };
+
+  const save = async (secrets: (string | RegExp)[]) => {
+    const { mkdir, writeFile } = await import("node:fs/promises");
+    const { dirname } = await import("node:path");
+    const file: CassetteFile = { version: 1, interactions };
+    const json = redact(JSON.stringify(file, null, 2), secrets);
+    await mkdir(dirname(options.path), { recursive: true });
+    await writeFile(options.path, `${json}\n`);
+  };
+
+  const record: FetchFn = async (url, init) => {
+    const response = await (options.fetch ?? fetch)(url, init);
+    const text = await response.text();
+    interactions.push({
+      request: toRequest(url, init),
+      response: { status: response.status, body: parseBody(text) },
+    });
+
+    const secrets = secretsOf(init);
+    writes = writes.then(() => save(secrets));
+    await writes;
+    return new Response(text || null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  const replay: FetchFn = async (url, init) => {
+    await (loaded ??= load());
+    // Secrets were redacted from the recorded requests, so they are redacted before matching
+    const request = JSON.parse(redact(JSON.stringify(toRequest(url, init)), secretsOf(init)));
+    const key = matchKey(request);
+    const interaction = interactions.find((i) => !played.has(i) && matchKey(i.request) === key);
+    if (!interaction) {
+      throw new CassetteError(
+        `No interaction in cassette ${options.path} matches ${describe(request)}`,
+      );
+    }
+
+    played.add(interaction);
+    const { status, body } = interaction.response;
+    if (body === null) return new Response(null, { status });
+    return typeof body === "string"
+      ? new Response(body, { status, headers: { "content-type": "text/plain" } })
+      : Response.json(body, { status });
+  };
+
+  return {
+    fetch: options.mode === "record" ? record : replay,
+    interactions,
+    pending: () => interactions.filter((i) => !played.has(i)),
+  };
+}
+
+function toRequest(url: string, init: RequestInit): CassetteInteraction["request"] {
+  const { pathname, searchParams } = new URL(url);
+  return {
+    method: (init.method ?? "GET") as HttpMethod,
+    path: pathname,
+    query: Object.fromEntries(searchParams),
+    body: typeof init.body === "string" ? JSON.parse(init.body) : null,
+  };
+}
+
+function redact(text: string, secrets: (string | RegExp)[]): string {
+  return secrets.reduce<string>(
+    (result, secret) =>
+      typeof secret === "string"
+        ? result.split(secret).join(REDACTED)
+        : result.replace(new RegExp(secret.source, `${secret.flags.replace("g", "")}g`), REDACTED),
+    text,
+  );
+}
+
+function parseBody(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Requests match regardless of the order of query parameters and body fields
+function matchKey(request: CassetteInteraction["request"]): string {
+  return JSON.stringify([
+    request.method,
+    request.path,
+    sorted(request.query),
+    sorted(request.body),
+  ]);
+}
+
+function sorted(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sorted);
+  if (value === null || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, sorted((value as Record<string, unknown>)[key])]),
+  );
+}
+
+function describe({ method, path, query, body }: CassetteInteraction["request"]): string {
+  const search = new URLSearchParams(query).toString();
+  return `${method} ${path}${search ? `?${search}` : ""}${body === null ? "" : ` ${JSON.stringify(body)}`}`;
+}
@@ -0,0 +1,49 @@
+export {
+  signWebhookPayload,
+  buildWebhookEvent,
+  buildCheckoutCompletedEvent,
+  buildSubscriptionEvent,
+  buildRefundEvent,
+  buildDisputeEvent,
+} from "./webhooks";
+export type {
+  SubscriptionEventType,
+  WebhookEnvelopeOverrides,
+  WebhookPayloadOverrides,
+} from "./webhooks";
+export { createFakeCreemServer } from "./server";
+export type {
+  CompletedCheckout,
+  CompleteCheckoutOptions,
+  FakeCreemRequest,
+  FakeCreemServer,
+  FakeCreemServerOptions,
+  FakeCheckout,
+  FakeCreemState,
+  FakeCustomer,
+  FakeDiscount,
+  FakeEntity,
+  FakeLicense,
+  FakeLicenseInstance,
+  FakeOrder,
+  FakeProduct,
+  FakeSubscription,
+  FakeSubscriptionItem,
+  FakeTransaction,
+  RenewedSubscription,
+} from "./server";
+export { createSubscriptionSimulator } from "./simulator";
+export type {
+  SimulatedDuration,
+  SubscriptionSimulator,
+  SubscriptionSimulatorOptions,
+  WebhookDeliverFn,
+} from "./simulator";
+export { CassetteError, createCassette } from "./cassette";
+export type {
+  Cassette,
+  CassetteFile,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+} from "./cassette";
@@ -0,0 +1,1219 @@
+import { FetchFn, HttpMethod } from "../types/core";
+
+/**
+ * An entity as the API returns it, with snake_case fields. The entity types below declare the
+ * fields the fake server reads, the others are kept as sent.
+ */
+export type FakeEntity = Record<string, unknown>;
+
+export interface FakeProduct extends FakeEntity {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  currency: string;
+  billing_type: string;
+  billing_period: string;
+  status: string;
+  default_success_url: string | null;
+}
+
+export interface FakeCustomer extends FakeEntity {
+  id: string;
+  email: string;
+  country: string;
+}
+
+export interface FakeCheckout extends FakeEntity {
+  id: string;
+  status: string;
+  product: string;
+  units: number;
+  order?: string;
+  customer?: string;
+  /** The `customer` sent when creating the checkout. Not returned by the API. */
+  customer_input?: FakeEntity | null;
+  /** The `discount_code` sent when creating the checkout. Not returned by the API. */
+  discount_code?: string | null;
+}
+
+export interface FakeOrder extends FakeEntity {
+  id: string;
+  customer: string;
+  product: string;
+  transaction: string;
+}
+
+export interface FakeTransaction extends FakeEntity {
+  id: string;
+  status: string;
+  currency: string;
+  amount_paid: number;
+  tax_amount: number;
+  refunded_amount: number | null;
+  /** In milliseconds, as the API returns it */
+  created_at: number;
+  customer: string;
+  order?: string;
+  subscription?: string;
+}
+
+export interface FakeSubscriptionItem extends FakeEntity {
+  id: string;
+  product_id: string;
+  units: number;
+}
+
+export interface FakeSubscription extends FakeEntity {
+  id: string;
+  status: string;
+  product: string;
+  customer: string;
+  items: FakeSubscriptionItem[];
+  current_period_end_date: string;
+  canceled_at: string | null;
+}
+
+export interface FakeLicenseInstance extends FakeEntity {
+  id: string;
+  name: string;
+  status: string;
+}
+
+export interface FakeLicense extends FakeEntity {
+  id: string;
+  key: string;
+  status: string;
+  activation: number;
+  activation_limit: number | null;
+  expires_at: string | null;
+  instances: FakeLicenseInstance[];
+}
+
+export interface FakeDiscount extends FakeEntity {
+  id: string;
+  code: string;
+  status: string;
+  type: string;
+  amount?: number | null;
+  percentage?: number | null;
+  redeem_count: number;
+  applies_to_products: string[];
+}
+
+/**
+ * Entities held by the fake server, by id. Related entities are referenced by id.
+ * Edit them directly to set up a scenario, e.g. `state.subscriptions.get(id)!.status = "unpaid"`.
+ */
+export interface FakeCreemState {
+  products: Map<string, FakeProduct>;
+  customers: Map<string, FakeCustomer>;
+  checkouts: Map<string, FakeCheckout>;
+  orders: Map<string, FakeOrder>;
+  transactions: Map<string, FakeTransaction>;
+  subscriptions: Map<string, FakeSubscription>;
+  licenses: Map<string, FakeLicense>;
+  discounts: Map<string, FakeDiscount>;
+}
+
+/**
+ * A request received by the fake server
+ */
+export interface FakeCreemRequest {
+  method: HttpMethod;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * The entities created when a checkout is paid, as the API returns them
+ */
+export interface CompletedCheckout {
+  checkout: FakeEntity & { id: string };
+  customer: FakeCustomer;
+  order: FakeOrder;
+  transaction: FakeTransaction;
+  /** Only for recurring products */
+  subscription?: FakeEntity & { id: string };
+}
+
+/**
+ * The entities updated when a subscription is renewed, as the API returns them
+ */
+export interface RenewedSubscription {
+  subscription: FakeEntity & { id: string };
+  transaction: FakeTransaction;
+}
+
+export interface CompleteCheckoutOptions {
+  /** Start recurring products with a free trial of this many days instead of charging */
+  trialDays?: number;
+}
+
+export interface FakeCreemServerOptions {
+  /** The only API key accepted. Any non-empty key is accepted when omitted */
+  apiKey?: string;
+  /** Returns the current time in milliseconds. Defaults to `Date.now`, override in tests. */
+  clock?: () => number;
+}
+
+export interface FakeCreemServer {
+  /** Serves the fake API. Pass it as the `fetch` option of `createCreem`. */
+  fetch: FetchFn;
+  /** Entities held by the server */
+  state: FakeCreemState;
+  /** Requests received, oldest first */
+  requests: FakeCreemRequest[];
+  /** Add a product without going through the API */
+  createProduct(fields?: Partial<FakeProduct>): FakeProduct;
+  /** Add a customer without going through the API */
+  createCustomer(fields?: Partial<FakeCustomer>): FakeCustomer;
+  /** Add a license key without going through the API */
+  createLicense(fields?: Partial<FakeLicense>): FakeLicense;
+  /**
+   * Pay a pending checkout, as the customer would on the hosted checkout page.
+   * Creates the customer (unless the checkout names one), the order, its transaction and,
+   * for recurring products, the subscription.
+   */
+  completeCheckout(checkoutId: string, options?: CompleteCheckoutOptions): CompletedCheckout;
+  /**
+   * Charge a subscription for its next period, as happens when the current period ends.
+   * The subscription becomes active and its period moves forward.
+   */
+  renewSubscription(subscriptionId: string): RenewedSubscription;
+  /** Remove every entity and recorded request */
+  reset(): void;
+}
+
+interface RouteRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: FakeEntity;
+}
+
+type Route = [HttpMethod, RegExp, (req: RouteRequest) => unknown];
+
+/**
+ * Declarative check of a request field, reported in the API's validation message format
+ */
+interface FieldRule {
+  required?: boolean;
+  type?: keyof FieldTypes;
+  oneOf?: readonly string[];
+  min?: number;
+  max?: number;
+  pattern?: [RegExp, string];
+}
+
+interface FieldTypes {
+  string: string;
+  integer: number;
+  number: number;
+  boolean: boolean;
+  array: unknown[];
+  object: FakeEntity;
+}
+
+// The type of a field that passed its rule
+type FieldValue<R extends FieldRule> = R extends { oneOf: readonly (infer V)[] }
+  ? V
+  : R extends { type: infer T extends keyof FieldTypes }
+    ? FieldTypes[T]
+    : R extends { pattern: [RegExp, string] }
+      ? string
+      : unknown;
+
+/**
+ * A request body that passed `assertValid`. Optional fields may be missing or null.
+ */
+type ValidBody<Rules extends Record<string, FieldRule>> = FakeEntity & {
+  [K in keyof Rules]: Rules[K] extends { required: true }
+    ? FieldValue<Rules[K]>
+    : FieldValue<Rules[K]> | null | undefined;
+};
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  400: "Bad Request",
+  403: "Forbidden",
+  404: "Not Found",
+  409: "Conflict",
+};
+
+const BILLING_PERIOD_MONTHS: Record<string, number> = {
+  "every-month": 1,
+  "every-three-months": 3,
+  "every-six-months": 6,
+  "every-year": 12,
+};
+
+const UPDATE_BEHAVIORS = ["proration-charge-immediately", "proration-charge", "proration-none"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly messages: string[],
+  ) {
+    super(messages.join("; "));
+  }
+}
+
+/**
+ * A stateful, in-process fake of the Creem API, for testing without credentials or network.
+ * Responses, validation errors and status codes follow the real API closely enough for the SDK,
+ * including `validateResponses: "throw"`.
+ *
+ * @example
+ * const server = createFakeCreemServer();
+ * const creem = createCreem({ apiKey: "creem_test_key", fetch: server.fetch });
+ *
+ * const product = server.createProduct({ name: "Pro", price: 2900 });
+ * const checkout = await creem.checkouts.create({ productId: product.id });
+ * server.completeCheckout(checkout.id);
+ */
+export function createFakeCreemServer(options: FakeCreemServerOptions = {}): FakeCreemServer {
+  const clock = options.clock ?? Date.now;
+  const state: FakeCreemState = {
+    products: new Map(),
+    customers: new Map(),
+    checkouts: new Map(),
+    orders: new Map(),
+    transactions: new Map(),
+    subscriptions: new Map(),
+    licenses: new Map(),
+    discounts: new Map(),
+  };
+  const requests: FakeCreemRequest[] = [];
+  const idempotentResponses = new Map<string, { status: number; body: unknown }>();
+  const counters = new Map<string, number>();
+
+  const now = () => new Date(clock()).toISOString();
+  const nextId = (prefix: string) => {
+    const n = (counters.get(prefix) ?? 0) + 1;
+    counters.set(prefix, n);
+    return `${prefix}_${n}`;
+  };
+
+  const find = <T extends FakeEntity>(collection: Map<string, T>, id: unknown, name: string) => {
+    const entity = typeof id === "string" ? collection.get(id) : undefined;
+    if (!entity) throw new HttpError(404, [`${name} not found`]);
+    return entity;
+  };
+
+  // ── Entities ─────────────────────────────────────────────────
+
+  const createProduct = (fields: Partial<FakeProduct> = {}) => {
+    const id = fields.id ?? nextId("prod");
+    const billingType = fields.billing_type ?? "recurring";
+    const product: FakeProduct = {
+      id,
+      mode: "test",
+      object: "product",
+      name: "Test Product",
+      description: "A product created by the fake Creem server",
+      image_url: null,
+      features: [],
+      price: 1000,
+      currency: "USD",
+      billing_type: billingType,
+      billing_period: billingType === "onetime" ? "once" : "every-month",
+      status: "active",
+      tax_mode: "exclusive",
+      tax_category: "saas",
+      product_url: `https://creem.io/test/payment/${id}`,
+      default_success_url: null,
+      created_at: now(),
+      updated_at: now(),
+      ...fields,
+    };
+    state.products.set(id, product);
+    return product;
+  };
+
+  const createCustomer = (fields: Partial<FakeCustomer> = {}) => {
+    const id = fields.id ?? nextId("cust");
+    const customer: FakeCustomer = {
+      id,
+      mode: "test",
+      object: "customer",
+      email: `${id}@example.com`,
+      name: null,
+      country: "US",
+      created_at: now(),
+      updated_at: now(),
+      ...fields,
+    };
+    state.customers.set(id, customer);
+    return customer;
+  };
+
+  const createLicense = (fields: Partial<FakeLicense> = {}) => {
+    const id = fields.id ?? nextId("lic");
+    const license: FakeLicense = {
+      id,
+      mode: "test",
+      object: "license",
+      status: "inactive",
+      key: `FAKE-${id.toUpperCase()}-KEY`,
+      activation: 0,
+      activation_limit: null,
+      expires_at: null,
+      created_at: now(),
+      instances: [],
+      ...fields,
+    };
+    state.licenses.set(id, license);
+    return license;
+  };
+
+  // ── Serialization ────────────────────────────────────────────
+
+  const productJson = (id: string) => state.products.get(id) ?? id;
+  const customerJson = (id: string) => state.customers.get(id) ?? id;
+
+  const subscriptionJson = (subscription: FakeSubscription) => ({
+    ...subscription,
+    product: productJson(subscription.product),
+    customer: customerJson(subscription.customer),
+  });
+
+  const checkoutJson = (checkout: FakeCheckout) => {
+    const { customer_input: _customerInput, discount_code: _discountCode, ...json } = checkout;
+    return {
+      ...json,
+      product: productJson(checkout.product),
+      ...(checkout.order && { order: state.orders.get(checkout.order) }),
+      ...(checkout.customer && { customer: customerJson(checkout.customer) }),
+    };
+  };
+
+  const licenseJson = (license: FakeLicense, instanceId: string) => {
+    const { instances, ...json } = license;
+    return { ...json, instance: instances.find((i) => i.id === instanceId) ?? null };
+  };
+
+  const page = (items: FakeEntity[], query: URLSearchParams) => {
+    const currentPage = Math.max(1, Number(query.get("page_number") ?? 1));
+    const size = Math.max(1, Number(query.get("page_size") ?? 10));
+    const totalPages = Math.ceil(items.length / size);
+    return {
+      items: items.slice((currentPage - 1) * size, currentPage * size),
+      pagination: {
+        total_records: items.length,
+        total_pages: totalPages,
+        current_page: currentPage,
+        next_page: currentPage < totalPages ? currentPage + 1 : null,
+        prev_page: currentPage > 1 ? currentPage - 1 : null,
+      },
+    };
+  };
+
+  // ── Checkout completion ──────────────────────────────────────
+
+  const createTransaction = (
+    fields: FakeEntity & Pick<FakeTransaction, "currency" | "amount_paid" | "customer">,
+  ) => {
+    const transaction: FakeTransaction = {
+      id: nextId("tran"),
+      mode: "test",
+      object: "transaction",
+      tax_amount: 0,
+      status: "paid",
+      refunded_amount: null,
+      created_at: clock(),
+      ...fields,
+    };
+    state.transactions.set(transaction.id, transaction);
+    return transaction;
+  };
+
+  const completeCheckout = (
+    checkoutId: string,
+    options: CompleteCheckoutOptions = {},
+  ): CompletedCheckout => {
+    const checkout = state.checkouts.get(checkoutId);
+    if (!checkout) throw new Error(`Checkout ${checkoutId} not found`);
+    if (checkout.status !== "pending") {
+      throw new Error(`Checkout ${checkoutId} is ${checkout.status}, not pending`);
+    }
+
+    const product = state.products.get(checkout.product)!;
+    const input = checkout.customer_input ?? {};
+    const email = typeof input.email === "string" ? input.email : undefined;
+    const customer =
+      (typeof input.id === "string" && state.customers.get(input.id)) ||
+      [...state.customers.values()].find((c) => email && c.email === email) ||
+      createCustomer(email ? { email } : {});
+
+    const recurring = product.billing_type === "recurring";
+    const trial = recurring && !!options.trialDays;
+    const amount = trial ? 0 : product.price * checkout.units;
+    const discount = [...state.discounts.values()].find((d) => d.code === checkout.discount_code);
+    const discountAmount = !discount
+      ? 0
+      : discount.type === "percentage"
+        ? Math.round((amount * (discount.percentage ?? 0)) / 100)
+        : Math.min(amount, discount.amount ?? 0);
+    if (discount) discount.redeem_count += 1;
+
+    const startedAt = clock();
+    const periodEnd = trial
+      ? startedAt + options.trialDays! * DAY_MS
+      : addMonths(startedAt, BILLING_PERIOD_MONTHS[product.billing_period] ?? 1);
+    const orderId = nextId("ord");
+    const subscriptionId = recurring ? nextId("sub") : undefined;
+    const transaction = createTransaction({
+      amount,
+      amount_paid: amount - discountAmount,
+      discount_amount: discountAmount,
+      currency: product.currency,
+      type: recurring ? "invoice" : "payment",
+      tax_country: customer.country,
+      order: orderId,
+      ...(subscriptionId && { subscription: subscriptionId }),
+      customer: customer.id,
+      description: trial ? "Free trial" : recurring ? "Subscription creation" : product.name,
+      ...(recurring && {
+        period_start: startedAt,
+        period_end: periodEnd,
+      }),
+    });
+
+    const order = {
+      id: orderId,
+      mode: "test",
+      object: "order",
+      customer: customer.id,
+      product: product.id,
+      transaction: transaction.id,
+      ...(discount && { discount: discount.id }),
+      amount,
+      sub_total: amount,
+      tax_amount: 0,
+      discount_amount: discountAmount,
+      amount_due: amount - discountAmount,
+      amount_paid: amount - discountAmount,
+      currency: product.currency,
+      status: "paid",
+      type: recurring ? "recurring" : "onetime",
+      created_at: now(),
+      updated_at: now(),
+    };
+    state.orders.set(orderId, order);
+
+    let subscription: FakeSubscription | undefined;
+    if (subscriptionId) {
+      subscription = {
+        id: subscriptionId,
+        mode: "test",
+        object: "subscription",
+        product: product.id,
+        customer: customer.id,
+        items: [
+          {
+            id: nextId("sitem"),
+            mode: "test",
+            object: "subscription_item",
+            product_id: product.id,
+            units: checkout.units,
+          },
+        ],
+        collection_method: "charge_automatically",
+        status: trial ? "trialing" : "active",
+        last_transaction_id: transaction.id,
+        last_transaction_date: now(),
+        next_transaction_date: new Date(periodEnd).toISOString(),
+        current_period_start_date: now(),
+        current_period_end_date: new Date(periodEnd).toISOString(),
+        canceled_at: null,
+        created_at: now(),
+        updated_at: now(),
+        metadata: checkout.metadata ?? {},
+      };
+      state.subscriptions.set(subscriptionId, subscription);
+    }
+
+    Object.assign(checkout, {
+      status: "completed",
+      order: orderId,
+      customer: customer.id,
+      ...(subscriptionId && { subscription: subscriptionId }),
+    });
+
+    return {
+      checkout: checkoutJson(checkout),
+      customer,
+      order,
+      transaction,
+      ...(subscription && { subscription: subscriptionJson(subscription) }),
+    };
+  };
+
+  const renewSubscription = (subscriptionId: string): RenewedSubscription => {
+    const subscription = state.subscriptions.get(subscriptionId);
+    if (!subscription) throw new Error(`Subscription ${subscriptionId} not found`);
+    if (subscription.status === "canceled") {
+      throw new Error(`Subscription ${subscriptionId} is canceled`);
+    }
+
+    const product = state.products.get(subscription.product)!;
+    const customer = state.customers.get(subscription.customer)!;
+    const amount = product.price * (subscription.items?.[0]?.units ?? 1);
+    const periodStart = Date.parse(subscription.current_period_end_date);
+    const periodEnd = addMonths(periodStart, BILLING_PERIOD_MONTHS[product.billing_period] ?? 1);
+    const transaction = createTransaction({
+      amount,
+      amount_paid: amount,
+      discount_amount: 0,
+      currency: product.currency,
+      type: "invoice",
+      tax_country: customer.country,
+      subscription: subscription.id,
+      customer: customer.id,
+      description: "Subscription renewal",
+      period_start: periodStart,
+      period_end: periodEnd,
+    });
+
+    Object.assign(subscription, {
+      status: "active",
+      last_transaction_id: transaction.id,
+      last_transaction_date: now(),
+      next_transaction_date: new Date(periodEnd).toISOString(),
+      current_period_start_date: new Date(periodStart).toISOString(),
+      current_period_end_date: new Date(periodEnd).toISOString(),
+      updated_at: now(),
+    });
+    return { subscription: subscriptionJson(subscription), transaction };
+  };
+
+  // ── Subscriptions ────────────────────────────────────────────
+
+  const updateSubscription = (
+    subscription: FakeSubscription,
+    fields: Partial<FakeSubscription>,
+  ) => {
+    Object.assign(subscription, fields, { updated_at: now() });
+    return subscriptionJson(subscription);
+  };
+
+  // Canceled subscriptions can no longer be changed
+  const openSubscription = (id: string) => {
+    const subscription = find(state.subscriptions, id, "Subscription");
+    if (subscription.status === "canceled") {
+      throw new HttpError(400, ["Subscription is canceled"]);
+    }
+    return subscription;
+  };
+
+  // ── Stats ────────────────────────────────────────────────────
+
+  const statsSummary = (query: URLSearchParams) => {
+    const currency = query.get("currency");
+    assertValid({ currency }, { currency: { required: true, pattern: CURRENCY } });
+    const interval = query.get("interval");
+    assertValid({ interval }, { interval: { oneOf: ["day", "week", "month"] } });
+
+    const start = query.has("start_date") ? Number(query.get("start_date")) : 0;
+    const end = query.has("end_date") ? Number(query.get("end_date")) : clock();
+    const payments = [...state.transactions.values()].filter(
+      (t) =>
+        t.status === "paid" &&
+        t.currency === currency &&
+        t.created_at >= start &&
+        t.created_at <= end,
+    );
+    const net = (t: FakeTransaction) => t.amount_paid - t.tax_amount - (t.refunded_amount ?? 0);
+
+    const subscriptions = [...state.subscriptions.values()];
+    const active = subscriptions.filter((s) =>
+      ["active", "trialing", "scheduled_cancel"].includes(s.status),
+    );
+    const mrr = active.reduce((sum, s) => {
+      const product = state.products.get(s.product);
+      if (product?.currency !== currency) return sum;
+      const units = s.items?.[0]?.units ?? 1;
+      return sum + (product.price * units) / (BILLING_PERIOD_MONTHS[product.billing_period] ?? 1);
+    }, 0);
+
+    const summary: { totals: FakeEntity; periods?: FakeEntity[] } = {
+      totals: {
+        total_products: state.products.size,
+        total_subscriptions: subscriptions.length,
+        total_customers: state.customers.size,
+        total_payments: payments.length,
+        active_subscriptions: active.length,
+        total_revenue: payments.reduce((sum, t) => sum + t.amount_paid, 0),
+        total_net_revenue: payments.reduce((sum, t) => sum + net(t), 0),
+        net_monthly_recurring_revenue: Math.round(mrr),
+        monthly_recurring_revenue: Math.round(mrr),
+      },
+    };
+
+    if (interval) {
+      const first = payments.length
+        ? Math.min(...payments.map((t) => t.created_at))
+        : Math.min(start || end, end);
+      summary.periods = [];
+      for (let from = periodStart(first, interval); from <= end; ) {
+        const to = nextPeriod(from, interval);
+        const inPeriod = payments.filter((t) => t.created_at >= from && t.created_at < to);
+        summary.periods.push({
+          timestamp: from,
+          gross_revenue: inPeriod.reduce((sum, t) => sum + t.amount_paid, 0),
+          net_revenue: inPeriod.reduce((sum, t) => sum + net(t), 0),
+        });
+        from = to;
+      }
+    }
+    return summary;
+  };
+
+  // ── Routes ───────────────────────────────────────────────────
+
+  const routes: Route[] = [
+    [
+      "GET",
+      /^\/v1\/products$/,
+      ({ query }) => find(state.products, query.get("product_id"), "Product"),
+    ],
+    [
+      "POST",
+      /^\/v1\/products$/,
+      ({ body }) => {
+        assertValid(body, {
+          name: { required: true, type: "string" },
+          description: { required: true, type: "string" },
+          image_url: { type: "string" },
+          price: { required: true, type: "integer", min: 0 },
+          currency: { required: true, pattern: CURRENCY },
+          billing_type: { required: true, oneOf: ["recurring", "onetime"] },
+          billing_period: {
+            required: body.billing_type === "recurring",
+            oneOf: Object.keys(BILLING_PERIOD_MONTHS),
+          },
+          tax_mode: { oneOf: ["inclusive", "exclusive"] },
+          tax_category: { oneOf: ["saas", "digital-goods-service", "ebooks"] },
+          default_success_url: { type: "string" },
+          custom_field: { type: "array" },
+          abandoned_cart_recovery_enabled: { type: "boolean" },
+        });
+        const {
+          custom_field: _customField,
+          abandoned_cart_recovery_enabled: _acr,
+          billing_period,
+          ...fields
+        } = body;
+        return createProduct(
+          withoutUndefined({ ...fields, billing_period: billing_period ?? undefined }),
+        );
+      },
+    ],
+    [
+      "GET",
+      /^\/v1\/products\/search$/,
+      ({ query }) => {
+        const text = query.get("query")?.toLowerCase();
+        const products = [...state.products.values()].filter(
+          (p) =>
+            !text ||
+            p.name.toLowerCase().includes(text) ||
+            p.description.toLowerCase().includes(text),
+        );
+        return page(products, query);
+      },
+    ],
+    [
+      "GET",
+      /^\/v1\/checkouts$/,
+      ({ query }) => checkoutJson(find(state.checkouts, query.get("checkout_id"), "Checkout")),
+    ],
+    [
+      "POST",
+      /^\/v1\/checkouts$/,
+      ({ body }) => {
+        assertValid(body, {
+          request_id: { type: "string" },
+          product_id: { required: true, type: "string" },
+          units: { type: "integer", min: 1 },
+          discount_code: { type: "string" },
+          customer: { type: "object" },
+          custom_fields: { type: "array" },
+          custom_field: { type: "array" },
+          success_url: { type: "string" },
+          metadata: { type: "object" },
+        });
+        const product = find(state.products, body.product_id, "Product");
+        if (product.status !== "active") {
+          throw new HttpError(400, ["Product is archived"]);
+        }
+        if (body.customer?.id) find(state.customers, body.customer.id, "Customer");
+        if (body.discount_code) {
+          const discount = [...state.discounts.values()].find((d) => d.code === body.discount_code);
+          if (!discount) throw new HttpError(404, ["Discount not found"]);
+          if (discount.status !== "active" || !discount.applies_to_products.includes(product.id)) {
+            throw new HttpError(400, ["Discount code is not valid for this product"]);
+          }
+        }
+
+        const id = nextId("ch");
+        const checkout = withoutUndefined({
+          id,
+          mode: "test",
+          object: "checkout",
+          status: "pending",
+          request_id: body.request_id,
+          product: product.id,
+          units: body.units ?? 1,
+          custom_fields: body.custom_fields ?? body.custom_field ?? [],
+          checkout_url: `https://creem.io/test/checkout/${product.id}/${id}`,
+          success_url: body.success_url ?? product.default_success_url,
+          metadata: body.metadata,
+          customer_input: body.customer,
+          discount_code: body.discount_code,
+        });
+        state.checkouts.set(id, checkout);
+        return checkoutJson(checkout);
+      },
+    ],
+    [
+      "GET",
+      /^\/v1\/customers$/,
+      ({ query }) => {
+        const email = query.get("email");
+        const customer = email
+          ? [...state.customers.values()].find((c) => c.email === email)
+          : state.customers.get(query.get("customer_id") ?? "");
+        if (!customer) throw new HttpError(404, ["Customer not found"]);
+        return customer;
+      },
+    ],
+    ["GET", /^\/v1\/customers\/list$/, ({ query }) => page([...state.customers.values()], query)],
+    [
+      "POST",
+      /^\/v1\/customers\/billing$/,
+      ({ body }) => {
+        assertValid(body, { customer_id: { required: true, type: "string" } });
+        const customer = find(state.customers, body.customer_id, "Customer");
+        return { customer_portal_link: `https://creem.io/test/my-orders/login/${customer.id}` };
+      },
+    ],
+    [
+      "GET",
+      /^\/v1\/subscriptions$/,
+      ({ query }) =>
+        subscriptionJson(find(state.subscriptions, query.get("subscription_id"), "Subscription")),
+    ],
+    [
+      "POST",
+      /^\/v1\/subscriptions\/([^/]+)\/cancel$/,
+      ({ params: [id], body }) => {
+        assertValid(body, { mode: { oneOf: ["immediate", "scheduled"] } });
+        const subscription = openSubscription(id);
+        return body.mode === "scheduled"
+          ? updateSubscription(subscription, { status: "scheduled_cancel" })
+          : updateSubscription(subscription, { status: "canceled", canceled_at: now() });
+      },
+    ],
+    [
+      "POST",
+      /^\/v1\/subscriptions\/([^/]+)\/pause$/,
+      ({ params: [id] }) => {
+        const subscription = openSubscription(id);
+        if (!["active", "trialing"].includes(subscription.status)) {
+          throw new HttpError(400, ["Only active subscriptions can be paused"]);
+        }
+        return updateSubscription(subscription, { status: "paused" });
+      },
+    ],
+    [
+      "POST",
+      /^\/v1\/subscriptions\/([^/]+)\/resume$/,
+      ({ params: [id] }) => {
+        const subscription = openSubscription(id);
+        if (!["paused", "scheduled_cancel"].includes(subscription.status)) {
+          throw new HttpError(400, [
+            "Only paused or scheduled to cancel subscriptions can be resumed",
+          ]);
+        }
+        return updateSubscription(subscription, { status: "active" });
+      },
+    ],
+    [
+      "POST",
+      /^\/v1\/subscriptions\/([^/]+)\/upgrade$/,
+      ({ params: [id], body }) => {
+        assertValid(body, {
+          product_id: { required: true, type: "string" },
+          update_behavior: { oneOf: UPDATE_BEHAVIORS },
+        });
+        const subscription = openSubscription(id);
+        const product = find(state.products, body.product_id, "Product");
+        if (product.billing_type !== "recurring") {
+          throw new HttpError(400, ["Subscriptions can only be upgraded to recurring products"]);
+        }
+        if (product.id === subscription.product) {
+          throw new HttpError(400, ["Subscription is already on this product"]);
+        }
+        const items = subscription.items.map((item, i) =>
+          i === 0 ? { ...item, product_id: product.id } : item,
+        );
+        return updateSubscription(subscription, { product: product.id, items });
+      },
+    ],
+    [
+      "POST",
+      /^\/v1\/subscriptions\/([^/]+)$/,
+      ({ params: [id], body }) => {
+        assertValid(body, {
+          items: { type: "array" },
+          update_behavior: { oneOf: UPDATE_BEHAVIORS },
+        });
+        const subscription = openSubscription(id);
+        const items = subscription.items.map((item) => ({ ...item }));
+        for (const update of (body.items ?? []) as FakeEntity[]) {
+          const item = items.find((i) => i.id === update.id);
+          if (!item) throw new HttpError(404, ["Subscription item not found"]);
+          assertValid(update, { units: { type: "integer", min: 1 } });
+          if (update.units != null) item.units = update.units;
+        }
+        return updateSubscription(subscription, { items });
+      },
+    ],
+    [
+      "GET",
+      /^\/v1\/transactions$/,
+      ({ query }) => find(state.transactions, query.get("transaction_id"), "Transaction"),
+    ],
+    [
+      "GET",
+      /^\/v1\/transactions\/search$/,
+      ({ query }) => {
+        const customerId = query.get("customer_id");
+        const orderId = query.get("order_id");
+        const productId = query.get("product_id");
+        const transactions = [...state.transactions.values()]
+          .filter(
+            (t) =>
+              (!customerId || t.customer === customerId) &&
+              (!orderId || t.order === orderId) &&
+              (!productId || state.orders.get(t.order ?? "")?.product === productId),
+          )
+          .reverse();
+        return page(transactions, query);
+      },
+    ],
+    [
+      "POST",
+      /^\/v1\/licenses\/activate$/,
+      ({ body }) => {
+        assertValid(body, {
+          key: { required: true, type: "string" },
+          instance_name: { required: true, type: "string" },
+        });
+        const license = usableLicense(body.key);
+        if (license.activation_limit !== null && license.activation >= license.activation_limit) {
+          throw new HttpError(400, ["License key has reached its activation limit"]);
+        }
+        const instance = {
+          id: nextId("ins"),
+          mode: "test",
+          object: "license-instance",
+          name: body.instance_name,
+          status: "active",
+          created_at: now(),
+        };
+        license.instances.push(instance);
+        license.activation += 1;
+        license.status = "active";
+        return licenseJson(license, instance.id);
+      },
+    ],
+    [
+      "POST",
+      /^\/v1\/licenses\/deactivate$/,
+      ({ body }) => {
+        assertValid(body, {
+          key: { required: true, type: "string" },
+          instance_id: { required: true, type: "string" },
+        });
+        const license = findLicense(body.key);
+        const instance = findInstance(license, body.instance_id);
+        if (instance.status === "deactivated") {
+          throw new HttpError(400, ["License instance is already deactivated"]);
+        }
+        instance.status = "deactivated";
+        license.activation -= 1;
+        if (license.activation === 0 && license.status === "active") license.status = "inactive";
+        return licenseJson(license, instance.id);
+      },
+    ],
+    [
+      "POST",
+      /^\/v1\/licenses\/validate$/,
+      ({ body }) => {
+        assertValid(body, {
+          key: { required: true, type: "string" },
+          instance_id: { required: true, type: "string" },
+        });
+        const license = findLicense(body.key);
+        return licenseJson(license, findInstance(license, body.instance_id).id);
+      },
+    ],
+    [
+      "GET",
+      /^\/v1\/discounts$/,
+      ({ query }) => {
+        const code = query.get("discount_code");
+        const discount = code
+          ? [...state.discounts.values()].find((d) => d.code === code)
+          : state.discounts.get(query.get("discount_id") ?? "");
+        if (!discount) throw new HttpError(404, ["Discount not found"]);
+        return discount;
+      },
+    ],
+    [
+      "POST",
+      /^\/v1\/discounts$/,
+      ({ body }) => {
+        assertValid(body, {
+          name: { required: true, type: "string" },
+          code: { type: "string" },
+          type: { required: true, oneOf: ["percentage", "fixed"] },
+          amount: { required: body.type === "fixed", type: "integer", min: 1 },
+          currency: { required: body.type === "fixed", pattern: CURRENCY },
+          percentage: { required: body.type === "percentage", type: "number", min: 1, max: 100 },
+          expiry_date: { type: "string" },
+          max_redemptions: { type: "integer", min: 1 },
+          duration: { required: true, oneOf: ["forever", "once", "repeating"] },
+          duration_in_months: {
+            required: body.duration === "repeating",
+            type: "integer",
+            min: 1,
+          },
+          applies_to_products: { required: true, type: "array" },
+        });
+        const products = body.applies_to_products.map(
+          (productId) => find(state.products, productId, "Product").id,
+        );
+        const id = nextId("dis");
+        const code = body.code ?? id.toUpperCase().replace("_", "");
+        if ([...state.discounts.values()].some((d) => d.code === code)) {
+          throw new HttpError(409, ["Discount code already exists"]);
+        }
+        const discount = withoutUndefined({
+          ...body,
+          id,
+          mode: "test",
+          object: "discount",
+          status: "active",
+          code,
+          redeem_count: 0,
+          applies_to_products: products,
+        });
+        state.discounts.set(id, discount);
+        return discount;
+      },
+    ],
+    [
+      "DELETE",
+      /^\/v1\/discounts\/([^/]+)\/delete$/,
+      ({ params: [id] }) => {
+        const discount = find(state.discounts, id, "Discount");
+        state.discounts.delete(id);
+        return discount;
+      },
+    ],
+    ["GET", /^\/v1\/stats\/summary$/, ({ query }) => statsSummary(query)],
+  ];
+
+  const findLicense = (key: string) => {
+    const license = [...state.licenses.values()].find((l) => l.key === key);
+    if (!license) throw new HttpError(404, ["License key not found"]);
+    if (license.expires_at && Date.parse(license.expires_at) <= clock()) {
+      license.status = "expired";
+    }
+    return license;
+  };
+
+  const usableLicense = (key: string) => {
+    const license = findLicense(key);
+    if (license.status === "disabled") throw new HttpError(400, ["License key is disabled"]);
+    if (license.status === "expired") throw new HttpError(400, ["License key has expired"]);
+    return license;
+  };
+
+  const findInstance = (license: FakeLicense, instanceId: string) => {
+    const instance = license.instances.find((i) => i.id === instanceId);
+    if (!instance) throw new HttpError(404, ["License instance not found"]);
+    return instance;
+  };
+
+  // ── HTTP ─────────────────────────────────────────────────────
+
+  const handle = (request: FakeCreemRequest): { status: number; body: unknown } => {
+    const apiKey = request.headers["x-api-key"];
+    if (!apiKey || (options.apiKey !== undefined && apiKey !== options.apiKey)) {
+      return errorBody(403, ["Invalid API key"]);
+    }
+
+    const idempotencyKey = request.headers["idempotency-key"];
+    const replayed = idempotencyKey && idempotentResponses.get(idempotencyKey);
+    if (replayed) return replayed;
+
+    const match = routes
+      .map(([method, pattern, run]) => ({ method, run, params: pattern.exec(request.path) }))
+      .find((r) => r.method === request.method && r.params);
+    if (!match) {
+      return errorBody(404, [`Cannot ${request.method} ${request.path}`]);
+    }
+
+    let response: { status: number; body: unknown };
+    try {
+      const body = match.run({
+        params: match.params!.slice(1),
+        query: new URLSearchParams(request.query),
+        body: (request.body ?? {}) as FakeEntity,
+      });
+      response = { status: 200, body: JSON.parse(JSON.stringify(body)) };
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      response = errorBody(error.status, error.messages);
+    }
+
+    if (idempotencyKey) idempotentResponses.set(idempotencyKey, response);
+    return response;
+  };
+
+  const fetch: FetchFn = async (url, init) => {
+    const { pathname, searchParams } = new URL(url);
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+    const request: FakeCreemRequest = {
+      method: (init.method ?? "GET") as HttpMethod,
+      path: pathname,
+      query: Object.fromEntries(searchParams),
+      headers,
+      body: typeof init.body === "string" ? JSON.parse(init.body) : undefined,
+    };
+    requests.push(request);
+
+    const { status, body } = handle(request);
+    return new Response(JSON.stringify(body), {
+      status,
+      statusText: STATUS_TEXT[status],
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+
+  return {
+    fetch,
+    state,
+    requests,
+    createProduct,
+    createCustomer,
+    createLicense,
+    completeCheckout,
+    renewSubscription,
+    reset: () => {
+      Object.values(state).forEach((collection: Map<string, FakeEntity>) => collection.clear());
+      requests.length = 0;
+      idempotentResponses.clear();
+      counters.clear();
+    },
+  };
+}
+
+const CURRENCY: [RegExp, string] = [/^[A-Z]{3}$/, "must be a valid ISO4217 currency code"];
+
+/**
+ * Reject a request body with every failing rule, like the API's validation pipe
+ */
+function assertValid<const Rules extends Record<string, FieldRule>>(
+  body: FakeEntity,
+  rules: Rules,
+): asserts body is ValidBody<Rules> {
+  const messages: string[] = [];
+
+  for (const [field, rule] of Object.entries(rules)) {
+    const value = body[field];
+    if (value === undefined || value === null || value === "") {
+      if (rule.required) messages.push(`${field} should not be empty`);
+      continue;
+    }
+    if (rule.type && !hasType(value, rule.type)) {
+      const article = /^[aeiou]/.test(rule.type) ? "an" : "a";
+      messages.push(
+        `${field} must be ${article} ${rule.type === "integer" ? "integer number" : rule.type}`,
+      );
+    } else if (rule.oneOf && !rule.oneOf.some((option) => option === value)) {
+      messages.push(`${field} must be one of the following values: ${rule.oneOf.join(", ")}`);
+    } else if (rule.pattern && !rule.pattern[0].test(String(value))) {
+      messages.push(`${field} ${rule.pattern[1]}`);
+    } else if (rule.min !== undefined && Number(value) < rule.min) {
+      messages.push(`${field} must not be less than ${rule.min}`);
+    } else if (rule.max !== undefined && Number(value) > rule.max) {
+      messages.push(`${field} must not be greater than ${rule.max}`);
+    }
+  }
+
+  if (messages.length > 0) throw new HttpError(400, messages);
+}
+
+function hasType(value: unknown, type: NonNullable<FieldRule["type"]>): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Error body in the API's format, which `CreemApiError` parses
+ */
+function errorBody(status: number, messages: string[]) {
+  return {
+    status,
+    body: {
+      trace_id: `trace_fake_${Math.random().toString(16).slice(2, 10)}`,
+      status,
+      error: STATUS_TEXT[status],
+      message: messages,
+      timestamp: Date.now(),
+    },
+  };
+}
+
+function withoutUndefined<T extends FakeEntity>(entity: T): T {
+  return Object.fromEntries(Object.entries(entity).filter(([, value]) => value !== undefined)) as T;
+}
+
+function addMonths(ms: number, months: number): number {
+  const date = new Date(ms);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.getTime();
+}
+
+function periodStart(ms: number, interval: string): number {
+  const date = new Date(ms);
+  date.setUTCHours(0, 0, 0, 0);
+  if (interval === "week") date.setUTCDate(date.getUTCDate() - date.getUTCDay());
+  if (interval === "month") date.setUTCDate(1);
+  return date.getTime();
+}
+
+function nextPeriod(ms: number, interval: string): number {
+  if (interval === "month") return addMonths(ms, 1);
+  return ms + (interval === "week" ? 7 : 1) * DAY_MS;
+}
@@ -0,0 +1,295 @@
+import { FetchFn } from "../types/core";
+import { WebhookEvent } from "../types/webhooks";
+import {
+  createFakeCreemServer,
+  CompletedCheckout,
+  CompleteCheckoutOptions,
+  FakeCreemServer,
+  FakeEntity,
+  FakeSubscription,
+} from "./server";
+import { buildWebhookEvent, SubscriptionEventType, signWebhookPayload } from "./webhooks";
+
+/**
+ * Receives a signed webhook, e.g.
+ * `(payload, signature) => creem.webhooks.handleEvents(payload, signature, handlers)`
+ */
+export type WebhookDeliverFn = (payload: string, signature: string) => unknown;
+
+export interface SubscriptionSimulatorOptions {
+  /** Secret the webhooks are signed with */
+  webhookSecret: string;
+  /** URL the webhooks are POSTed to, or a function receiving each signed webhook */
+  deliver: string | WebhookDeliverFn;
+  /** Start of the virtual clock. Defaults to the current time */
+  startTime?: Date | number;
+  /** The only API key accepted by the fake server */
+  apiKey?: string;
+  /** Days between payment retries after a failed renewal. Defaults to `[3, 5, 7]` */
+  paymentRetryDays?: number[];
+  /** Days after the last failed retry before an unpaid subscription expires. Defaults to 7 */
+  expireUnpaidAfterDays?: number;
+}
+
+/**
+ * A span of virtual time
+ */
+export interface SimulatedDuration {
+  days?: number;
+  hours?: number;
+  minutes?: number;
+}
+
+export interface SubscriptionSimulator {
+  /** The fake server holding the simulated entities, driven by the virtual clock */
+  server: FakeCreemServer;
+  /**
+   * Serves the fake API and delivers the webhooks of subscription changes made through it
+   * (cancel, pause, resume, upgrade and update). Pass it as the `fetch` option of `createCreem`.
+   */
+  fetch: FetchFn;
+  /** Webhook events delivered, oldest first */
+  events: WebhookEvent<string, Record<string, unknown>>[];
+  /** The current virtual time */
+  now(): Date;
+  /**
+   * Pay a pending checkout and deliver "checkout.completed" followed by "subscription.trialing",
+   * or "subscription.active" and "subscription.paid"
+   */
+  completeCheckout(
+    checkoutId: string,
+    options?: CompleteCheckoutOptions,
+  ): Promise<CompletedCheckout>;
+  /** Make the renewal payments of a subscription fail, or succeed again with `fail = false` */
+  failPayments(subscriptionId: string, fail?: boolean): void;
+  /**
+   * Move the virtual clock forward, delivering the webhooks of every renewal, payment retry
+   * and expiry on the way
+   */
+  advance(duration: SimulatedDuration): Promise<void>;
+  /** Move the virtual clock forward to a point in time */
+  advanceTo(time: Date | number): Promise<void>;
+}
+
+/**
+ * Payment retries of a subscription whose renewal failed
+ */
+interface Dunning {
+  retries: number;
+  lastAttemptAt: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Subscription event delivered after each successful subscription API call
+const ACTION_EVENTS: Record<string, (status: string) => SubscriptionEventType> = {
+  cancel: (status) =>
+    status === "scheduled_cancel" ? "subscription.scheduled_cancel" : "subscription.canceled",
+  pause: () => "subscription.paused",
+  resume: () => "subscription.active",
+  upgrade: () => "subscription.update",
+  update: () => "subscription.update",
+};
+
+/**
+ * Simulate subscriptions over a virtual clock and deliver the webhooks Creem would send.
+ *
+ * Subscriptions renew at the end of each period ("subscription.paid"). A failed renewal
+ * delivers "subscription.past_due", is retried after `paymentRetryDays`, delivers
+ * "subscription.unpaid" once the retries are exhausted and expires ("subscription.expired")
+ * `expireUnpaidAfterDays` later. Subscriptions scheduled to cancel expire at the end of their
+ * period.
+ *
+ * @example
+ * const simulator = createSubscriptionSimulator({
+ *   webhookSecret: "whsec_test",
+ *   deliver: "http://localhost:3000/api/webhooks/creem",
+ * });
+ * const creem = createCreem({ apiKey: "creem_test_key", fetch: simulator.fetch });
+ *
+ * const product = simulator.server.createProduct({ price: 2900 });
+ * const checkout = await creem.checkouts.create({ productId: product.id });
+ * const { subscription } = await simulator.completeCheckout(checkout.id, { trialDays: 14 });
+ *
+ * await simulator.advance({ days: 14 }); // subscription.active, subscription.paid
+ * simulator.failPayments(subscription!.id);
+ * await simulator.advance({ days: 31 }); // subscription.past_due
+ * await simulator.advance({ days: 30 }); // subscription.unpaid, subscription.expired
+ */
+export function createSubscriptionSimulator(
+  options: SubscriptionSimulatorOptions,
+): SubscriptionSimulator {
+  const { paymentRetryDays = [3, 5, 7], expireUnpaidAfterDays = 7 } = options;
+  let time = Number(options.startTime ?? Date.now());
+  const server = createFakeCreemServer({ apiKey: options.apiKey, clock: () => time });
+  const { state } = server;
+  const events: WebhookEvent<string, Record<string, unknown>>[] = [];
+  const failing = new Set<string>();
+  const dunning = new Map<string, Dunning>();
+
+  const send = async (payload: string, signature: string) => {
+    const { deliver } = options;
+    if (typeof deliver !== "string") return deliver(payload, signature);
+
+    const response = await fetch(deliver, {
+      method: "POST",
+      headers: { "content-type": "application/json", "creem-signature": signature },
+      body: payload,
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook delivery to ${deliver} failed with status ${response.status}`);
+    }
+  };
+
+  const emit = async (eventType: string, object: FakeEntity) => {
+    const event = buildWebhookEvent(eventType, object, { created_at: time });
+    const payload = JSON.stringify(event);
+    events.push(event);
+    await send(payload, await signWebhookPayload(payload, options.webhookSecret));
+  };
+
+  const emitSubscription = (eventType: SubscriptionEventType, subscription: FakeSubscription) =>
+    emit(eventType, {
+      ...subscription,
+      product: state.products.get(subscription.product) ?? subscription.product,
+      customer: state.customers.get(subscription.customer) ?? subscription.customer,
+    });
+
+  const update = (subscription: FakeSubscription, fields: Partial<FakeSubscription>) =>
+    Object.assign(subscription, fields, { updated_at: new Date(time).toISOString() });
+
+  // ── Lifecycle ────────────────────────────────────────────────
+
+  const charge = async (subscription: FakeSubscription) => {
+    const { id, status } = subscription;
+    if (!failing.has(id)) {
+      server.renewSubscription(id);
+      dunning.delete(id);
+      if (status !== "active") await emitSubscription("subscription.active", subscription);
+      await emitSubscription("subscription.paid", subscription);
+      return;
+    }
+
+    let attempts = dunning.get(id);
+    if (attempts) {
+      attempts.retries += 1;
+      attempts.lastAttemptAt = time;
+    } else {
+      attempts = { retries: 0, lastAttemptAt: time };
+      dunning.set(id, attempts);
+      update(subscription, { status: "unpaid" });
+      await emitSubscription("subscription.past_due", subscription);
+    }
+    if (attempts.retries >= paymentRetryDays.length) {
+      await emitSubscription("subscription.unpaid", subscription);
+    }
+  };
+
+  const expire = async (subscription: FakeSubscription) => {
+    dunning.delete(subscription.id);
+    update(subscription, {
+      status: "canceled",
+      canceled_at: subscription.canceled_at ?? new Date(time).toISOString(),
+    });
+    await emitSubscription("subscription.expired", subscription);
+  };
+
+  // The next scheduled change of a subscription, if any
+  const due = (subscription: FakeSubscription) => {
+    const periodEnd = Date.parse(subscription.current_period_end_date);
+    const attempts = dunning.get(subscription.id);
+
+    switch (subscription.status) {
+      case "active":
+      case "trialing":
+        return { at: periodEnd, run: charge };
+      case "scheduled_cancel":
+        return { at: periodEnd, run: expire };
+      case "unpaid":
+        if (!attempts) return undefined;
+        return attempts.retries < paymentRetryDays.length
+          ? {
+              at: attempts.lastAttemptAt + paymentRetryDays[attempts.retries] * DAY_MS,
+              run: charge,
+            }
+          : { at: attempts.lastAttemptAt + expireUnpaidAfterDays * DAY_MS, run: expire };
+      default:
+        return undefined;
+    }
+  };
+
+  const advanceTo = async (target: Date | number) => {
+    const end = Number(target);
+    if (end < time) throw new Error("The simulated clock cannot go back in time");
+
+    for (;;) {
+      let next:
+        | {
+            at: number;
+            run: (s: FakeSubscription) => Promise<void>;
+            subscription: FakeSubscription;
+          }
+        | undefined;
+      for (const subscription of state.subscriptions.values()) {
+        const change = due(subscription);
+        if (change && change.at <= end && (!next || change.at < next.at)) {
+          next = { ...change, subscription };
+        }
+      }
+      if (!next) break;
+      time = Math.max(time, next.at);
+      await next.run(next.subscription);
+    }
+    time = end;
+  };
+
+  // ── API calls ────────────────────────────────────────────────
+
+  const simulatedFetch: FetchFn = async (url, init) => {
+    const response = await server.fetch(url, init);
+    const match = new URL(url).pathname.match(
+      /^\/v1\/subscriptions\/([^/]+?)(?:\/(cancel|pause|resume|upgrade))?$/,
+    );
+    const subscription = match && state.subscriptions.get(match[1]);
+    if (init.method === "POST" && response.ok && subscription) {
+      await emitSubscription(
+        ACTION_EVENTS[match[2] ?? "update"](subscription.status),
+        subscription,
+      );
+    }
+    return response;
+  };
+
+  return {
+    server,
+    fetch: simulatedFetch,
+    events,
+    now: () => new Date(time),
+    completeCheckout: async (checkoutId, checkoutOptions) => {
+      const completed = server.completeCheckout(checkoutId, checkoutOptions);
+      const subscription =
+        completed.subscription && state.subscriptions.get(completed.subscription.id)!;
+
+      await emit("checkout.completed", {
+        ...completed.checkout,
+        ...(subscription && { subscription: { ...subscription } }),
+      });
+      if (subscription?.status === "trialing") {
+        await emitSubscription("subscription.trialing", subscription);
+      } else if (subscription) {
+        await emitSubscription("subscription.active", subscription);
+        await emitSubscription("subscription.paid", subscription);
+      }
+      return completed;
+    },
+    failPayments: (subscriptionId, fail = true) => {
+      if (fail) failing.add(subscriptionId);
+      else failing.delete(subscriptionId);
+    },
+    advance: ({ days = 0, hours = 0, minutes = 0 }) =>
+      advanceTo(time + days * DAY_MS + hours * HOUR_MS + minutes * MINUTE_MS),
+    advanceTo,
+  };
+}
@@ -0,0 +1,337 @@
+import { hmacSha256Hex } from "../signature";
+import { generateIdempotencyKey } from "../utils";
+import { WebhookEvent, WebhookEventType } from "../types/webhooks";
+
+/**
+ * Snake_case fields to override in a generated payload. Nested objects are merged, arrays replaced.
+ */
+export type WebhookPayloadOverrides = Record<string, unknown>;
+
+/**
+ * Envelope fields of a generated event
+ */
+export interface WebhookEnvelopeOverrides {
+  /** Event id. A random `evt_` id by default */
+  id?: string;
+  /** Creation time in epoch milliseconds. The current time by default */
+  created_at?: number;
+}
+
+/**
+ * Subscription event types, e.g. "subscription.paid"
+ */
+export type SubscriptionEventType = Extract<WebhookEventType, `subscription.${string}`>;
+
+/**
+ * Subscription status reported by each subscription event
+ */
+const SUBSCRIPTION_STATUS: Record<SubscriptionEventType, string> = {
+  "subscription.active": "active",
+  "subscription.trialing": "trialing",
+  "subscription.paid": "active",
+  "subscription.canceled": "canceled",
+  "subscription.expired": "canceled",
+  "subscription.unpaid": "unpaid",
+  "subscription.update": "active",
+  "subscription.past_due": "unpaid",
+  "subscription.paused": "paused",
+  "subscription.scheduled_cancel": "scheduled_cancel",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sign a webhook payload like Creem does, for the "creem-signature" header.
+ * Objects are serialized with `JSON.stringify`; send exactly the string that was signed.
+ *
+ * @example
+ * const payload = JSON.stringify(buildSubscriptionEvent("subscription.paid"));
+ * const signature = await signWebhookPayload(payload, process.env.CREEM_WEBHOOK_SECRET!);
+ * await fetch("http://localhost:3000/webhook", {
+ *   method: "POST",
+ *   headers: { "creem-signature": signature },
+ *   body: payload,
+ * });
+ */
+export async function signWebhookPayload(
+  payload: string | Uint8Array | object,
+  secret: string,
+): Promise<string> {
+  const body =
+    typeof payload === "string" || payload instanceof Uint8Array
+      ? payload
+      : JSON.stringify(payload);
+  return hmacSha256Hex(body, secret);
+}
+
+/**
+ * Build a webhook event envelope around an entity
+ */
+export function buildWebhookEvent<T extends string>(
+  eventType: T,
+  object: Record<string, unknown>,
+  envelope: WebhookEnvelopeOverrides = {},
+): WebhookEvent<T, Record<string, unknown>> {
+  return {
+    id: envelope.id ?? randomId("evt"),
+    eventType,
+    created_at: envelope.created_at ?? Date.now(),
+    object,
+  };
+}
+
+/**
+ * Build a realistic "checkout.completed" event for a subscription purchase
+ *
+ * @example
+ * const event = buildCheckoutCompletedEvent({ metadata: { referenceId: "user_123" } });
+ */
+export function buildCheckoutCompletedEvent(
+  overrides: WebhookPayloadOverrides = {},
+  envelope: WebhookEnvelopeOverrides = {},
+): WebhookEvent<"checkout.completed", Record<string, unknown>> {
+  const now = envelope.created_at ?? Date.now();
+  const product = buildProduct(now);
+  const customer = buildCustomer(now);
+
+  const checkout = {
+    id: "ch_test_checkout",
+    object: "checkout",
+    mode: "test",
+    request_id: null,
+    status: "completed",
+    units: 1,
+    product,
+    customer,
+    order: {
+      id: "ord_test_order",
+      object: "order",
+      mode: "test",
+      customer: customer.id,
+      product: product.id,
+      transaction: "tran_test_transaction",
+      amount: product.price,
+      sub_total: product.price,
+      tax_amount: 0,
+      discount_amount: 0,
+      amount_due: product.price,
+      amount_paid: product.price,
+      currency: product.currency,
+      status: "paid",
+      type: "recurring",
+      created_at: iso(now),
+      updated_at: iso(now),
+    },
+    subscription: {
+      ...buildSubscription("active", now),
+      product: product.id,
+      customer: customer.id,
+    },
+    custom_fields: [],
+    metadata: {},
+  };
+
+  return buildWebhookEvent("checkout.completed", merge(checkout, overrides), {
+    ...envelope,
+    created_at: now,
+  });
+}
+
+/**
+ * Build a realistic subscription event. The subscription status follows the event type.
+ *
+ * @example
+ * const event = buildSubscriptionEvent("subscription.paid", { metadata: { referenceId: "user_123" } });
+ */
+export function buildSubscriptionEvent<T extends SubscriptionEventType>(
+  eventType: T,
+  overrides: WebhookPayloadOverrides = {},
+  envelope: WebhookEnvelopeOverrides = {},
+): WebhookEvent<T, Record<string, unknown>> {
+  const now = envelope.created_at ?? Date.now();
+  const status = SUBSCRIPTION_STATUS[eventType];
+
+  const subscription = {
+    ...buildSubscription(status, now),
+    product: buildProduct(now),
+    customer: buildCustomer(now),
+  };
+
+  return buildWebhookEvent(eventType, merge(subscription, overrides), {
+    ...envelope,
+    created_at: now,
+  });
+}
+
+/**
+ * Build a realistic "refund.created" event for a refunded subscription payment
+ *
+ * @example
+ * const event = buildRefundEvent({ reason: "duplicate" });
+ */
+export function buildRefundEvent(
+  overrides: WebhookPayloadOverrides = {},
+  envelope: WebhookEnvelopeOverrides = {},
+): WebhookEvent<"refund.created", Record<string, unknown>> {
+  const now = envelope.created_at ?? Date.now();
+  const transaction = buildTransaction("refunded", now);
+
+  const refund = {
+    id: "ref_test_refund",
+    object: "refund",
+    mode: "test",
+    status: "succeeded",
+    refund_amount: transaction.amount_paid,
+    refund_currency: transaction.currency,
+    reason: "requested_by_customer",
+    transaction,
+    order: transaction.order,
+    subscription: transaction.subscription,
+    customer: buildCustomer(now),
+    created_at: now,
+  };
+
+  return buildWebhookEvent("refund.created", merge(refund, overrides), {
+    ...envelope,
+    created_at: now,
+  });
+}
+
+/**
+ * Build a realistic "dispute.created" event for a disputed subscription payment
+ *
+ * @example
+ * const event = buildDisputeEvent({ amount: 1000 });
+ */
+export function buildDisputeEvent(
+  overrides: WebhookPayloadOverrides = {},
+  envelope: WebhookEnvelopeOverrides = {},
+): WebhookEvent<"dispute.created", Record<string, unknown>> {
+  const now = envelope.created_at ?? Date.now();
+  const transaction = buildTransaction("paid", now);
+
+  const dispute = {
+    id: "disp_test_dispute",
+    object: "dispute",
+    mode: "test",
+    amount: transaction.amount_paid,
+    currency: transaction.currency,
+    transaction,
+    order: transaction.order,
+    subscription: transaction.subscription,
+    customer: buildCustomer(now),
+    created_at: now,
+  };
+
+  return buildWebhookEvent("dispute.created", merge(dispute, overrides), {
+    ...envelope,
+    created_at: now,
+  });
+}
+
+function buildProduct(now: number) {
+  return {
+    id: "prod_test_product",
+    object: "product",
+    mode: "test",
+    name: "Pro Plan",
+    description: "Monthly Pro subscription",
+    image_url: null,
+    price: 2900,
+    currency: "USD",
+    billing_type: "recurring",
+    billing_period: "every-month",
+    status: "active",
+    tax_mode: "exclusive",
+    tax_category: "saas",
+    default_success_url: null,
+    created_at: iso(now - 30 * DAY_MS),
+    updated_at: iso(now - 30 * DAY_MS),
+  };
+}
+
+function buildCustomer(now: number) {
+  return {
+    id: "cust_test_customer",
+    object: "customer",
+    mode: "test",
+    email: "customer@example.com",
+    name: "Test Customer",
+    country: "US",
+    created_at: iso(now),
+    updated_at: iso(now),
+  };
+}
+
+function buildSubscription(status: string, now: number) {
+  const ended = status === "canceled" || status === "scheduled_cancel";
+  return {
+    id: "sub_test_subscription",
+    object: "subscription",
+    mode: "test",
+    collection_method: "charge_automatically",
+    status,
+    last_transaction_id: "tran_test_transaction",
+    last_transaction_date: iso(now),
+    next_transaction_date: iso(now + 30 * DAY_MS),
+    current_period_start_date: iso(now),
+    current_period_end_date: iso(now + 30 * DAY_MS),
+    canceled_at: ended ? iso(now) : null,
+    created_at: iso(now),
+    updated_at: iso(now),
+    metadata: {},
+  };
+}
+
+function buildTransaction(status: string, now: number) {
+  return {
+    id: "tran_test_transaction",
+    object: "transaction",
+    mode: "test",
+    amount: 2900,
+    amount_paid: 2900,
+    discount_amount: 0,
+    currency: "USD",
+    type: "invoice",
+    tax_country: "US",
+    tax_amount: 0,
+    status,
+    refunded_amount: status === "refunded" ? 2900 : null,
+    order: "ord_test_order",
+    subscription: "sub_test_subscription",
+    customer: "cust_test_customer",
+    description: "Subscription payment",
+    period_start: now - 30 * DAY_MS,
+    period_end: now,
+    created_at: now - DAY_MS,
+  };
+}
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_${generateIdempotencyKey().replace(/-/g, "").slice(0, 24)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && value.constructor === Object;
+}
+
+/**
+ * Deep merge plain objects. Arrays and other values in `overrides` replace the base value.
+ */
+function merge(
+  base: Record<string, unknown>,
+  overrides: WebhookPayloadOverrides,
+): Record<string, unknown> {
+  const result = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    result[key] =
+      isPlainObject(value) && isPlainObject(result[key])
+        ? merge(result[key] as Record<string, unknown>, value)
+        : value;
+  }
+  return result;
+}
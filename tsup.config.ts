@@ -1,7 +1,16 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["index.ts"],
+  entry: {
+    index: "index.ts",
+    testing: "testing/index.ts",
+    node: "adapters/node.ts",
+    express: "adapters/express.ts",
+    next: "adapters/next.ts",
+    fastify: "adapters/fastify.ts",
+    hono: "adapters/hono.ts",
+    cli: "cli/bin.ts",
+  },
   format: ["cjs", "esm"],
   dts: true,
   splitting: false,
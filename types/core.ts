@@ -1,6 +1,106 @@
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+/**
+ * Per-call options accepted by the request layer
+ */
+export interface RequestOptions {
+  /**
+   * Idempotency key sent as the `Idempotency-Key` header and reused across retries,
+   * so a retried create call cannot produce duplicates.
+   * POST requests are only retried when a key is present.
+   */
+  idempotencyKey?: string;
+  /** Signal to cancel the request, including pending retries */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds. Overrides the `timeoutMs` passed to `createCreem` */
+  timeoutMs?: number;
+}
+
+/**
+ * A `fetch`-compatible function, e.g. the global `fetch` or undici's `fetch`
+ */
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
 export type RequestFn = <T>(
-  method: "GET" | "POST" | "PUT" | "DELETE",
+  method: HttpMethod,
   path: string,
   data?: unknown,
   queryParams?: Record<string, string | number | boolean | undefined>,
+  options?: RequestOptions,
 ) => Promise<T>;
+
+/**
+ * Retry policy for failed requests
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one. Defaults to 3 */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds, doubled on each attempt. Defaults to 500 */
+  baseDelayMs: number;
+  /** Upper bound for the computed backoff delay in milliseconds. Defaults to 8000 */
+  maxDelayMs: number;
+  /** Randomize delays between 50% and 100% of the computed backoff. Defaults to true */
+  jitter: boolean;
+  /** HTTP status codes that trigger a retry. Defaults to 408, 429, 500, 502, 503 and 504 */
+  retryOnStatus: number[];
+  /** Retry when `fetch` itself fails (connection reset, DNS failure, ...). Defaults to true */
+  retryOnNetworkError: boolean | ((error: unknown) => boolean);
+  /**
+   * Wait for the duration given by the `Retry-After` header when present. Defaults to true.
+   * When it is longer than `maxDelayMs`, the error is thrown without retrying.
+   */
+  respectRetryAfter: boolean;
+}
+
+/**
+ * Request passed to `onRequest` middleware hooks.
+ * Hooks may mutate it in place or return a replacement.
+ */
+export interface RequestContext {
+  /** HTTP method */
+  method: HttpMethod;
+  /** Request path, e.g. "/v1/products" */
+  path: string;
+  /** Query parameters (snake_case, as sent to the API) */
+  query?: Record<string, string | number | boolean | undefined>;
+  /** Request body (snake_case, as sent to the API) */
+  body?: unknown;
+  /** Request headers, including `x-api-key` */
+  headers: Record<string, string>;
+  /** Attempt number, starting at 1 and incremented on every retry */
+  attempt: number;
+}
+
+/**
+ * Successful response passed to `onResponse` middleware hooks
+ */
+export interface ResponseContext extends RequestContext {
+  /** HTTP status code */
+  status: number;
+  /** Time spent on this attempt in milliseconds */
+  durationMs: number;
+  /** Parsed, camelCased response body */
+  data: unknown;
+}
+
+/**
+ * Failed attempt passed to `onError` middleware hooks
+ */
+export interface RequestErrorContext extends RequestContext {
+  /** HTTP status code, if the API responded */
+  status?: number;
+  /** Time spent on this attempt in milliseconds */
+  durationMs: number;
+  /** The error that will be thrown or retried */
+  error: unknown;
+}
+
+/**
+ * Hooks run around every request attempt.
+ * `onRequest` hooks run in registration order, `onResponse` and `onError` hooks in reverse order.
+ */
+export interface Middleware {
+  onRequest?: (context: RequestContext) => RequestContext | void | Promise<RequestContext | void>;
+  onResponse?: (context: ResponseContext) => void | Promise<void>;
+  onError?: (context: RequestErrorContext) => void | Promise<void>;
+}
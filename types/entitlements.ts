@@ -0,0 +1,69 @@
+/**
+ * Entitlements Types
+ *
+ * Types for tracking which customers have access to which products, maintained from webhook events.
+ */
+
+import type { GrantAccessReason, PurchaseRevokeAccessReason, RevokeAccessReason } from "./webhooks";
+
+/**
+ * Whether an entitlement currently gives access
+ */
+export type EntitlementStatus = "active" | "revoked";
+
+/**
+ * Why an entitlement was last changed: the access hook reason, or "checkout_completed"
+ * for one-time purchases
+ */
+export type EntitlementReason =
+  | GrantAccessReason
+  | RevokeAccessReason
+  | PurchaseRevokeAccessReason
+  | "checkout_completed";
+
+/**
+ * A customer's access to a product
+ */
+export interface Entitlement {
+  /** The customer ID */
+  customerId: string;
+  /** Your own identifier for the customer, read from the purchase metadata */
+  referenceId?: string;
+  /** The product ID */
+  productId: string;
+  /** Whether the entitlement currently gives access */
+  status: EntitlementStatus;
+  /** Why the entitlement was last changed */
+  reason: EntitlementReason;
+  /** End of the paid or trial period. Not set for one-time purchases */
+  currentPeriodEnd?: Date;
+  /** The subscription that grants the entitlement */
+  subscriptionId?: string;
+  /** The order that grants the entitlement, for one-time purchases */
+  orderId?: string;
+  /** When the source subscription or purchase last changed */
+  updatedAt: Date;
+}
+
+/**
+ * Persists entitlements, keyed by customer and product.
+ *
+ * @example
+ * // A store backed by your own database
+ * const store: EntitlementStore = {
+ *   get: (customerId, productId) => db.entitlement.findUnique({ where: { customerId_productId: { customerId, productId } } }),
+ *   list: (id) => db.entitlement.findMany({ where: { OR: [{ customerId: id }, { referenceId: id }] } }),
+ *   set: async (entitlement) => { await db.entitlement.upsert(...) },
+ * };
+ */
+export interface EntitlementStore {
+  /** The entitlement of a customer to a product, if any */
+  get(
+    customerId: string,
+    productId: string,
+  ): Entitlement | undefined | Promise<Entitlement | undefined>;
+  /** All entitlements whose customer ID or reference ID matches */
+  list(customerIdOrReferenceId: string): Entitlement[] | Promise<Entitlement[]>;
+  /** Insert or replace the entitlement for its customer and product */
+  set(entitlement: Entitlement): void | Promise<void>;
+}
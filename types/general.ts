@@ -28,3 +28,29 @@ export interface BaseEntity {
   /** Environment mode: test, prod, or sandbox */
   mode: "test" | "prod" | "sandbox";
 }
+
+/**
+ * A paginated list response
+ */
+export interface Page<T> {
+  /** Items on this page */
+  items: T[];
+  /** Pagination details */
+  pagination: Pagination;
+}
+
+/**
+ * Options for auto-paginating `listAll`/`searchAll` methods
+ */
+export interface AutoPaginationOptions {
+  /** Number of pages to fetch ahead concurrently. Defaults to 0 (one page at a time) */
+  prefetch?: number;
+}
+
+/**
+ * Async iterator over every item of a paginated list, fetching pages on demand
+ */
+export interface PageIterator<T> extends AsyncIterable<T> {
+  /** Collect items into an array, stopping after `max` items when given */
+  toArray(options?: { max?: number }): Promise<T[]>;
+}
@@ -8,3 +8,4 @@ export * from "./transactions";
 export * from "./licenses";
 export * from "./webhooks";
 export * from "./stats";
+export * from "./entitlements";
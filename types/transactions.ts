@@ -40,12 +40,12 @@ export interface Transaction extends BaseEntity {
   customer?: string;
   /** The description of the transaction */
   description?: string;
-  /** Start period for the invoice as timestamp */
-  periodStart?: number;
-  /** End period for the invoice as timestamp */
-  periodEnd?: number;
-  /** Creation date of the transaction as timestamp */
-  createdAt: number;
+  /** Start period for the invoice */
+  periodStart?: Date;
+  /** End period for the invoice */
+  periodEnd?: Date;
+  /** Creation date of the transaction */
+  createdAt: Date;
 }
 
 /**
@@ -176,22 +176,135 @@ export type SubscriptionEvent<T extends string> = {
   webhookCreatedAt: number;
 } & NormalizedSubscription;
 
+/**
+ * Payload delivered to handlers for each webhook event type
+ */
+export interface WebhookEventMap {
+  "checkout.completed": CheckoutCompletedEvent;
+  "refund.created": RefundCreatedEvent;
+  "dispute.created": DisputeCreatedEvent;
+  "subscription.active": SubscriptionEvent<"subscription.active">;
+  "subscription.trialing": SubscriptionEvent<"subscription.trialing">;
+  "subscription.canceled": SubscriptionEvent<"subscription.canceled">;
+  "subscription.paid": SubscriptionEvent<"subscription.paid">;
+  "subscription.expired": SubscriptionEvent<"subscription.expired">;
+  "subscription.unpaid": SubscriptionEvent<"subscription.unpaid">;
+  "subscription.update": SubscriptionEvent<"subscription.update">;
+  "subscription.past_due": SubscriptionEvent<"subscription.past_due">;
+  "subscription.paused": SubscriptionEvent<"subscription.paused">;
+  "subscription.scheduled_cancel": SubscriptionEvent<"subscription.scheduled_cancel">;
+}
+
+/**
+ * All webhook event types known to the SDK
+ */
+export type WebhookEventType = keyof WebhookEventMap;
+
+/**
+ * Union of every webhook event payload, discriminated by `webhookEventType`
+ */
+export type AnyWebhookEvent = WebhookEventMap[WebhookEventType];
+
+/**
+ * An event type, or a wildcard matching every type with the same prefix, e.g. "subscription.*"
+ */
+export type WebhookEventPattern =
+  | WebhookEventType
+  | (WebhookEventType extends `${infer Prefix}.${string}` ? `${Prefix}.*` : never);
+
+/**
+ * Payload type of the events matched by a pattern
+ */
+export type WebhookEventForPattern<P extends WebhookEventPattern> = P extends WebhookEventType
+  ? WebhookEventMap[P]
+  : P extends `${infer Prefix}.*`
+    ? Extract<AnyWebhookEvent, { webhookEventType: `${Prefix}.${string}` }>
+    : never;
+
+/**
+ * Event with a type the SDK does not know yet, passed to `onUnknownEvent`
+ */
+export type UnknownWebhookEvent = {
+  webhookEventType: string;
+  webhookId: string;
+  webhookCreatedAt: number;
+} & Record<string, unknown>;
+
+/**
+ * Identifies the handler that failed, passed to `onHandlerError`
+ */
+export interface WebhookHandlerErrorContext {
+  /** Handler name, e.g. "onGrantAccess" or `on("subscription.*")` for a listener */
+  handler: string;
+  /** Type of the event being handled */
+  eventType: string;
+  /** Id of the event being handled */
+  eventId: string;
+}
+
+/**
+ * Listener registered with `webhooks.on` or `webhooks.onAny`
+ */
+export type WebhookEventHandler<T = AnyWebhookEvent> = (event: T) => void | Promise<void>;
+
 // ============================================================================
 // ACCESS CONTROL TYPES
 // ============================================================================
 
 /**
- * Reasons for granting access
+ * Reason passed to the access hooks for each subscription event, e.g. "subscription_past_due"
  */
-export type GrantAccessReason =
+export type SubscriptionAccessReason =
   | "subscription_active"
   | "subscription_trialing"
-  | "subscription_paid";
+  | "subscription_paid"
+  | "subscription_canceled"
+  | "subscription_expired"
+  | "subscription_unpaid"
+  | "subscription_update"
+  | "subscription_past_due"
+  | "subscription_paused"
+  | "subscription_scheduled_cancel";
 
 /**
- * Reasons for revoking access
+ * Reasons for granting access. Any subscription event can grant access through the access policy.
  */
-export type RevokeAccessReason = "subscription_paused" | "subscription_expired";
+export type GrantAccessReason = SubscriptionAccessReason;
+
+/**
+ * Reasons for revoking access. Any subscription event can revoke access through the access policy.
+ */
+export type RevokeAccessReason = SubscriptionAccessReason;
+
+/**
+ * Reasons for revoking access to a refunded or disputed purchase
+ */
+export type PurchaseRevokeAccessReason = "refund_created" | "dispute_created";
+
+/**
+ * What an event means for the customer's access. `"none"` calls neither access hook.
+ */
+export type AccessAction = "grant" | "revoke" | "none";
+
+/**
+ * Maps webhook events to `onGrantAccess` / `onRevokeAccess`, and refunds and disputes to
+ * `onRevokeAccessForPurchase`. Entries are merged over `DEFAULT_ACCESS_POLICY`.
+ *
+ * @example
+ * // Revoke right away when payment fails, keep access while past due, revoke on refunds
+ * const accessPolicy: AccessPolicy = {
+ *   "subscription.unpaid": "revoke",
+ *   "subscription.past_due": "grant",
+ *   "refund.created": "revoke",
+ *   "dispute.created": "revoke",
+ * };
+ */
+export type AccessPolicy = {
+  [K in Extract<WebhookEventType, `subscription.${string}`>]?: AccessAction;
+} & {
+  "refund.created"?: Exclude<AccessAction, "grant">;
+  "dispute.created"?: Exclude<AccessAction, "grant">;
+};
 
 /**
  * Context passed to onGrantAccess callback.
@@ -211,10 +324,89 @@ export type RevokeAccessContext = {
   reason: RevokeAccessReason;
 } & NormalizedSubscription;
 
+/**
+ * Context passed to onRevokeAccessForPurchase callback, discriminated by `reason`.
+ * Refunds and disputes have a `reason` of their own, so they are passed as `refund` / `dispute`.
+ */
+export type PurchaseRevokeAccessContext =
+  | { reason: "refund_created"; refund: NormalizedRefund }
+  | { reason: "dispute_created"; dispute: NormalizedDispute };
+
 // ============================================================================
 // WEBHOOK HANDLER TYPES
 // ============================================================================
 
+/**
+ * Configuration for the webhooks resource
+ */
+export interface WebhookConfig {
+  /** Convert entity timestamps into `Date` objects. Defaults to true */
+  hydrateDates?: boolean;
+  /**
+   * Reject events whose `created_at` is more than this many seconds away from the current time,
+   * protecting against replayed payloads. Disabled when omitted; 300 (5 minutes) is a good default.
+   */
+  toleranceSeconds?: number;
+  /** Returns the current time in milliseconds. Defaults to `Date.now`, override in tests. */
+  clock?: () => number;
+  /** Deduplicates redelivered events by their id. Every delivery is processed when omitted. */
+  idempotencyStore?: WebhookIdempotencyStore;
+  /**
+   * Which events call `onGrantAccess` / `onRevokeAccess` / `onRevokeAccessForPurchase`,
+   * merged over `DEFAULT_ACCESS_POLICY`.
+   * By default active, trialing and paid subscriptions grant access, paused and expired ones revoke it.
+   */
+  accessPolicy?: AccessPolicy;
+  /**
+   * What to do when a handler throws. "fail-fast" (default) skips the remaining handlers;
+   * "run-all" runs every handler first. Either way `handleEvents` then rejects with a
+   * `WebhookHandlerError` listing the failures.
+   */
+  handlerErrorMode?: "fail-fast" | "run-all";
+}
+
+/**
+ * Returned by `handleEvents` once an event has been handled
+ */
+export interface WebhookHandleResult {
+  /** Id of the handled event */
+  eventId: string;
+  /** Type of the handled event */
+  eventType: string;
+  /**
+   * Index of the secret that verified the signature, when `webhookSecret` is an array.
+   * Once the old secret stops matching, it can be removed safely.
+   */
+  secretIndex: number;
+  /**
+   * True when the `idempotencyStore` had already processed the event,
+   * so it was skipped without calling any handler
+   */
+  duplicate: boolean;
+}
+
+/**
+ * Tracks processed webhook event ids so redelivered events run their handlers only once.
+ *
+ * For each verified event, `handleEvents`:
+ * 1. skips the event if `has(id)` resolves true,
+ * 2. claims it with `markProcessing(id)`, throwing if the claim is refused,
+ * 3. runs the handlers, then calls `markDone(id)` on success or `release(id)` on failure.
+ *
+ * A shared implementation (e.g. Redis `SET NX` or a Postgres unique key) must make
+ * `markProcessing` atomic, and should expire unreleased claims in case a process crashes.
+ */
+export interface WebhookIdempotencyStore {
+  /** Whether the event has already been processed successfully */
+  has(eventId: string): boolean | Promise<boolean>;
+  /** Claim the event. Returns false if it is being processed or was already processed. */
+  markProcessing(eventId: string): boolean | Promise<boolean>;
+  /** Record that the event was processed successfully */
+  markDone(eventId: string): void | Promise<void>;
+  /** Drop the claim after a failed attempt so a redelivery can process the event */
+  release(eventId: string): void | Promise<void>;
+}
+
 /**
  * Webhook configuration options
  */
@@ -223,7 +415,7 @@ export interface WebhookOptions {
    * Creem Webhook Secret (for signature verification)
    * @required
    */
-  webhookSecret: string;
+  webhookSecret: string | string[];
 
   /**
    * Called when a checkout is completed.
@@ -313,7 +505,8 @@ export interface WebhookOptions {
 
   /**
    * Called when a user should be granted access to the platform.
-   * This is triggered for: active, trialing, and paid subscriptions.
+   * By default this is triggered for active, trialing, and paid subscriptions;
+   * change the mapping with the `accessPolicy` webhook option.
    *
    * NOTE: This may be called multiple times for the same user/subscription.
    * Implement this as an idempotent operation (safe to call repeatedly).
@@ -329,17 +522,48 @@ export interface WebhookOptions {
 
   /**
    * Called when a user's access should be revoked.
-   * This is triggered for: paused, expired, and canceled (after period ends) subscriptions.
+   * By default this is triggered for paused and expired subscriptions;
+   * change the mapping with the `accessPolicy` webhook option.
    *
    * NOTE: This may be called multiple times for the same user/subscription.
    * Implement this as an idempotent operation (safe to call repeatedly).
    *
    * @example
-   * onRevokeAccess: async ({ reason, product, customer, metadata }) => {
+   * onRevokeAccess: async ({ reason, customer, metadata }) => {
    *   const userId = metadata?.referenceId as string;
    *   console.log(`Revoking access (${reason}) from ${customer.email}`);
    *   // Your database logic here
    * }
    */
   onRevokeAccess?: (context: RevokeAccessContext) => void | Promise<void>;
+
+  /**
+   * Called when access to a refunded or disputed purchase should be revoked.
+   * Only triggered when the `accessPolicy` maps "refund.created" / "dispute.created" to "revoke".
+   *
+   * @example
+   * onRevokeAccessForPurchase: async (context) => {
+   *   const { transaction } = context.reason === "refund_created" ? context.refund : context.dispute;
+   *   console.log(`Revoking access (${context.reason}) for order ${transaction.order}`);
+   * }
+   */
+  onRevokeAccessForPurchase?: (context: PurchaseRevokeAccessContext) => void | Promise<void>;
+
+  /**
+   * Called for event types the SDK does not handle yet, instead of silently ignoring them.
+   *
+   * @example
+   * onUnknownEvent: async ({ webhookEventType, webhookId }) => {
+   *   logger.warn(`Unhandled Creem event ${webhookEventType} (${webhookId})`);
+   * }
+   */
+  onUnknownEvent?: (event: UnknownWebhookEvent) => void | Promise<void>;
+
+  /**
+   * Called each time a handler or listener throws, e.g. to report it to an error tracker.
+   * `handleEvents` still rejects with a `WebhookHandlerError` afterwards. If `onHandlerError`
+   * throws, that error is added to the failures and the remaining handlers still run in
+   * "run-all" mode.
+   */
+  onHandlerError?: (error: unknown, context: WebhookHandlerErrorContext) => void | Promise<void>;
 }
@@ -10,3 +10,18 @@ export function toCamelCase(obj: any): any {
   }
   return obj;
 }
+
+/**
+ * Generate a random UUID v4 to use as an idempotency key.
+ * Falls back to Math.random on runtimes without Web Crypto (Node < 19).
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof globalThis.crypto?.randomUUID === "function") {
+    return globalThis.crypto.randomUUID();
+  }
+
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}